@@ -6,6 +6,9 @@ import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import History from "./pages/History";
+import SavedAnalysis from "./pages/SavedAnalysis";
+import Compare from "./pages/Compare";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -32,6 +35,9 @@ function AppRoutes() {
   return (
     <Routes>
       <Route path="/" element={<Index />} />
+      <Route path="/history" element={<History />} />
+      <Route path="/analyses/:id" element={<SavedAnalysis />} />
+      <Route path="/compare/:beforeId/:afterId" element={<Compare />} />
       <Route path="*" element={<NotFound />} />
     </Routes>
   );
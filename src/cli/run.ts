@@ -0,0 +1,196 @@
+import { createReadStream } from 'node:fs';
+import { readFile, stat, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { parseCSV } from '@/lib/csv-parser';
+import { analyzeBatch } from '@/lib/analyzer';
+import { parseFxRates } from '@/lib/fx-rates';
+import { parseDispositions } from '@/lib/feedback';
+import { parseEntityRegistry } from '@/lib/entity-registry';
+import { parseWatchlist } from '@/lib/watchlist';
+import { resultToJSON } from '@/lib/result-json';
+import type { ColumnMapping, DetectionConfig, ParsedCSV } from '@/lib/types';
+
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+export const USAGE = `Usage: mulermoney analyze <input.csv> [options]
+
+Options:
+  --config <file>              Detection parameter overrides (JSON)
+  --out <file>                 Write the result JSON here instead of stdout
+  --append <file>              Append a later batch and analyze it incrementally (repeatable)
+  --diff <file>                Write the ring changes caused by the last --append batch (JSON)
+  --mapping <file>             Column mapping (JSON, canonical column → source header)
+  --fx-rates <file>            FX rate table (.json or .csv)
+  --reporting-currency <code>  Currency amounts are normalized to
+  --feedback <file>            Analyst dispositions (JSON array) to apply to scoring
+  --registry <file>            Entity registry CSV of known legitimate accounts
+  --watchlist <file>           Watchlist CSV of known bad accounts
+  --strict                     Fail if any row is rejected during ingestion
+  --quiet                      Only print errors
+  -h, --help                   Show this help`;
+
+interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const processIO: CliIO = {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+};
+
+/**
+ * Run the CLI against argv (without the node/script prefix) and resolve to an
+ * exit code. Never throws: every failure is reported on stderr.
+ */
+export async function run(argv: string[], io: CliIO = processIO): Promise<number> {
+  let args: ReturnType<typeof parseCliArgs>;
+  try {
+    args = parseCliArgs(argv);
+  } catch (e) {
+    io.stderr(`${e instanceof Error ? e.message : String(e)}\n\n${USAGE}\n`);
+    return EXIT_USAGE;
+  }
+  if (args.help) {
+    io.stdout(`${USAGE}\n`);
+    return EXIT_OK;
+  }
+
+  const { input, options } = args;
+  const log = (text: string) => {
+    if (!options.quiet) io.stderr(`${text}\n`);
+  };
+
+  try {
+    const config = options.config ? await readJSON<Partial<DetectionConfig>>(options.config, 'config') : undefined;
+    const mapping = options.mapping ? await readJSON<ColumnMapping>(options.mapping, 'mapping') : undefined;
+    const fxRates = options['fx-rates']
+      ? parseFxRates(await readText(options['fx-rates'], 'FX rate'), extname(options['fx-rates']).toLowerCase() === '.csv' ? 'csv' : 'json')
+      : null;
+    const feedback = options.feedback ? parseDispositions(await readJSON<unknown>(options.feedback, 'feedback')) : undefined;
+    const registry = options.registry ? parseEntityRegistry(await readText(options.registry, 'registry')) : undefined;
+    const watchlist = options.watchlist ? parseWatchlist(await readText(options.watchlist, 'watchlist')) : undefined;
+
+    // Resolves to null after reporting why the file cannot be analyzed
+    const ingest = async (path: string): Promise<ParsedCSV | null> => {
+      const { size } = await stat(path);
+      const parsed = await parseCSV(createReadStream(path), {
+        size,
+        mapping,
+        fxRates,
+        reportingCurrency: options['reporting-currency'],
+      });
+
+      const { report } = parsed;
+      log(`Read ${report.rows_read} rows: ${report.rows_accepted} accepted, ${report.rows_rejected.length} rejected`);
+      for (const rejected of report.rows_rejected.slice(0, 10)) {
+        log(`  line ${rejected.line}${rejected.column ? ` (${rejected.column})` : ''}: ${rejected.reason}`);
+      }
+      if (report.rows_rejected.length > 10) log(`  … and ${report.rows_rejected.length - 10} more`);
+
+      if (report.rows_accepted === 0) {
+        io.stderr('Ingestion failed: no valid transactions\n');
+        return null;
+      }
+      if (options.strict && report.rows_rejected.length > 0) {
+        io.stderr(`Ingestion failed: ${report.rows_rejected.length} rows rejected (--strict)\n`);
+        return null;
+      }
+      return parsed;
+    };
+
+    const parsed = await ingest(input);
+    if (!parsed) return EXIT_FAILURE;
+    const analysisOptions = {
+      config,
+      reportingCurrency: parsed.report.reporting_currency,
+      feedback,
+      registry,
+      watchlist,
+    };
+
+    let batch = await analyzeBatch(null, parsed.transactions, () => {}, analysisOptions);
+    for (const warning of batch.result.warnings) io.stderr(`Warning: ${warning}\n`);
+
+    for (const path of options.append ?? []) {
+      const next = await ingest(path);
+      if (!next) return EXIT_FAILURE;
+      batch = await analyzeBatch(batch.snapshot, next.transactions, () => {}, analysisOptions);
+      for (const warning of batch.result.warnings) io.stderr(`Warning: ${warning}\n`);
+      const { new_rings, changed_rings, resolved_rings } = batch.diff!;
+      log(`Appended ${path}: ${new_rings.length} new, ${changed_rings.length} changed, ${resolved_rings.length} resolved rings`);
+    }
+    if (options.diff) {
+      await writeFile(options.diff, JSON.stringify(batch.diff, null, 2));
+      log(`Wrote ${options.diff}`);
+    }
+
+    const { result } = batch;
+
+    const json = resultToJSON(result);
+    if (options.out) {
+      await writeFile(options.out, json);
+      log(`Wrote ${options.out}`);
+    } else {
+      io.stdout(`${json}\n`);
+    }
+    log(
+      `${result.summary.suspicious_accounts_flagged} suspicious accounts, ` +
+      `${result.summary.fraud_rings_detected} fraud rings in ${result.summary.processing_time_seconds}s`
+    );
+    return EXIT_OK;
+  } catch (e) {
+    io.stderr(`Error: ${e instanceof Error ? e.message : String(e)}\n`);
+    return EXIT_FAILURE;
+  }
+}
+
+function parseCliArgs(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      config: { type: 'string' },
+      out: { type: 'string' },
+      append: { type: 'string', multiple: true },
+      diff: { type: 'string' },
+      mapping: { type: 'string' },
+      'fx-rates': { type: 'string' },
+      'reporting-currency': { type: 'string' },
+      feedback: { type: 'string' },
+      registry: { type: 'string' },
+      watchlist: { type: 'string' },
+      strict: { type: 'boolean' },
+      quiet: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) return { help: true, input: '', options: values };
+
+  const [command, input, ...extra] = positionals;
+  if (command !== 'analyze') throw new Error(command ? `Unknown command: ${command}` : 'Missing command');
+  if (!input) throw new Error('Missing input CSV path');
+  if (extra.length > 0) throw new Error(`Unexpected arguments: ${extra.join(' ')}`);
+  if (values.diff && !values.append) throw new Error('--diff needs at least one --append batch');
+  return { help: false, input, options: values };
+}
+
+async function readText(path: string, what: string): Promise<string> {
+  try {
+    return await readFile(path, 'utf8');
+  } catch (e) {
+    throw new Error(`Cannot read ${what} file ${path}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+async function readJSON<T>(path: string, what: string): Promise<T> {
+  const text = await readText(path, what);
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new Error(`${what} file ${path} is not valid JSON`);
+  }
+}
@@ -0,0 +1,54 @@
+import type { Transaction } from '@/lib/types';
+import { buildActivityTimeline, DAY_MS } from '@/lib/graph-engine';
+import { formatMoney } from '@/lib/fx-rates';
+
+interface ActivitySparklineProps {
+  transactions: Transaction[];
+  accountId: string;
+  currency: string;
+}
+
+const MAX_BARS = 60;
+const HEIGHT = 40;
+
+/** Inflow bars above the midline, outflow below; buckets widen past MAX_BARS days so idle gaps stay visible. */
+export default function ActivitySparkline({ transactions, accountId, currency }: ActivitySparklineProps) {
+  if (transactions.length === 0) return null;
+
+  const times = transactions.map(tx => tx.timestamp.getTime());
+  const span = Math.max(...times) - Math.min(...times);
+  const bucketMs = Math.max(1, Math.ceil(span / DAY_MS / MAX_BARS)) * DAY_MS;
+  const active = buildActivityTimeline(transactions, accountId, bucketMs);
+
+  const first = active[0].start;
+  const count = Math.round((active[active.length - 1].start - first) / bucketMs) + 1;
+  const bars = Array.from({ length: count }, (_, i) => ({ start: first + i * bucketMs, transactions: 0, inValue: 0, outValue: 0 }));
+  for (const bucket of active) bars[Math.round((bucket.start - first) / bucketMs)] = bucket;
+
+  const peak = Math.max(...bars.map(b => Math.max(b.inValue, b.outValue)), 1);
+  const scale = (v: number) => (v / peak) * (HEIGHT / 2 - 1);
+  const days = bucketMs / DAY_MS;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${count} ${HEIGHT}`} preserveAspectRatio="none" className="h-10 w-full">
+        <line x1={0} x2={count} y1={HEIGHT / 2} y2={HEIGHT / 2} className="stroke-border" strokeWidth={0.2} />
+        {bars.map((b, i) => b.transactions > 0 && (
+          <g key={b.start}>
+            <title>
+              {new Date(b.start).toLocaleDateString()}{days > 1 ? ` (+${days - 1}d)` : ''}: {b.transactions} tx, in{' '}
+              {formatMoney(b.inValue, currency)}, out {formatMoney(b.outValue, currency)}
+            </title>
+            <rect x={i + 0.1} width={0.8} y={HEIGHT / 2 - scale(b.inValue)} height={scale(b.inValue)} className="fill-success" />
+            <rect x={i + 0.1} width={0.8} y={HEIGHT / 2} height={scale(b.outValue)} className="fill-danger" />
+          </g>
+        ))}
+      </svg>
+      <div className="flex justify-between font-mono text-[9px] text-muted-foreground">
+        <span>{new Date(first).toLocaleDateString()}</span>
+        <span>{days === 1 ? 'daily' : `${days}-day buckets`}</span>
+        <span>{new Date(active[active.length - 1].start).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+}
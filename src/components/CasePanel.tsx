@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, FileText, Link as LinkIcon, MessageSquare, Paperclip } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { CASE_STATUSES, addCaseEvidence, addCaseNote, loadCaseActivity } from '@/lib/case-store';
+import type { Case, CaseEvidence, CaseNote, CaseStatus } from '@/lib/types';
+import CaseStatusBadge from './CaseStatusBadge';
+import { toast } from 'sonner';
+
+interface CasePanelProps {
+  caseRecord: Case;
+  onUpdate: (id: string, changes: Partial<Pick<Case, 'status' | 'assignee'>>) => void;
+  onSelectAccount: (id: string) => void;
+  onClose: () => void;
+}
+
+export default function CasePanel({ caseRecord, onUpdate, onSelectAccount, onClose }: CasePanelProps) {
+  const [notes, setNotes] = useState<CaseNote[]>([]);
+  const [evidence, setEvidence] = useState<CaseEvidence[]>([]);
+  const [assignee, setAssignee] = useState(caseRecord.assignee ?? '');
+  const [noteDraft, setNoteDraft] = useState('');
+  const [linkLabel, setLinkLabel] = useState('');
+  const [linkUrl, setLinkUrl] = useState('');
+  const [expandedEvidence, setExpandedEvidence] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAssignee(caseRecord.assignee ?? '');
+    loadCaseActivity(supabase, caseRecord.id)
+      .then(activity => {
+        setNotes(activity.notes);
+        setEvidence(activity.evidence);
+      })
+      .catch(err => toast.error(err instanceof Error ? err.message : 'Failed to load case activity'));
+  }, [caseRecord.id, caseRecord.assignee]);
+
+  const saveAssignee = () => {
+    const value = assignee.trim() || null;
+    if (value !== caseRecord.assignee) onUpdate(caseRecord.id, { assignee: value });
+  };
+
+  const submitNote = async () => {
+    const body = noteDraft.trim();
+    if (!body) return;
+    try {
+      const note = await addCaseNote(supabase, caseRecord.id, body);
+      setNotes(prev => [...prev, note]);
+      setNoteDraft('');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to add note');
+    }
+  };
+
+  const submitLink = async () => {
+    const url = linkUrl.trim();
+    if (!url) return;
+    try {
+      const item = await addCaseEvidence(supabase, caseRecord.id, { label: linkLabel.trim() || url, url });
+      setEvidence(prev => [...prev, item]);
+      setLinkLabel('');
+      setLinkUrl('');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to attach evidence');
+    }
+  };
+
+  const inputClass = 'h-7 w-full rounded-sm border border-border bg-secondary px-2 font-mono text-xs text-foreground placeholder:text-muted-foreground focus:border-primary focus:outline-none';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      className="flex h-full flex-col overflow-hidden"
+    >
+      <div className="flex items-center justify-between border-b border-border p-3">
+        <div className="min-w-0">
+          <p className="truncate font-mono text-sm font-bold text-foreground">{caseRecord.title}</p>
+          <div className="mt-0.5 flex items-center gap-2">
+            <CaseStatusBadge status={caseRecord.status} />
+            <span className="text-[10px] text-muted-foreground">opened {new Date(caseRecord.created_at).toLocaleDateString()}</span>
+          </div>
+        </div>
+        <button onClick={onClose} className="rounded p-1 text-muted-foreground hover:bg-secondary hover:text-foreground">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 space-y-4 overflow-y-auto p-3">
+        {/* Status & assignment */}
+        <div className="space-y-2">
+          <label className="block text-[10px] uppercase tracking-wider text-muted-foreground">
+            Status
+            <select
+              value={caseRecord.status}
+              onChange={e => onUpdate(caseRecord.id, { status: e.target.value as CaseStatus })}
+              className={`mt-1 ${inputClass}`}
+            >
+              {CASE_STATUSES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+            </select>
+          </label>
+          <label className="block text-[10px] uppercase tracking-wider text-muted-foreground">
+            Assignee
+            <input
+              value={assignee}
+              onChange={e => setAssignee(e.target.value)}
+              onBlur={saveAssignee}
+              onKeyDown={e => { if (e.key === 'Enter') saveAssignee(); }}
+              placeholder="Unassigned"
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+        </div>
+
+        {/* Accounts */}
+        <div>
+          <p className="mb-1.5 text-[10px] uppercase tracking-wider text-muted-foreground">Accounts</p>
+          <div className="flex flex-wrap gap-1">
+            {caseRecord.member_accounts.map(id => (
+              <button
+                key={id}
+                onClick={() => onSelectAccount(id)}
+                className="rounded-sm bg-secondary px-1.5 py-0.5 font-mono text-[10px] text-foreground hover:bg-secondary/60"
+              >
+                {id}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Evidence */}
+        <div>
+          <div className="mb-1.5 flex items-center gap-2">
+            <Paperclip className="h-3.5 w-3.5 text-primary" />
+            <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Evidence ({evidence.length})</span>
+          </div>
+          <div className="space-y-1">
+            {evidence.map(item => (
+              <div key={item.id} className="rounded-sm border border-border bg-card p-2">
+                {item.url ? (
+                  <a href={item.url} target="_blank" rel="noreferrer" className="flex items-center gap-1.5 font-mono text-[10px] text-primary hover:underline">
+                    <LinkIcon className="h-3 w-3 flex-shrink-0" />
+                    <span className="truncate">{item.label}</span>
+                  </a>
+                ) : (
+                  <button
+                    onClick={() => setExpandedEvidence(expandedEvidence === item.id ? null : item.id)}
+                    className="flex w-full items-center gap-1.5 text-left font-mono text-[10px] text-foreground"
+                  >
+                    <FileText className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+                    <span className="truncate">{item.label}</span>
+                  </button>
+                )}
+                {expandedEvidence === item.id && item.data !== null && (
+                  <pre className="mt-1.5 max-h-48 overflow-auto whitespace-pre-wrap break-all font-mono text-[9px] text-muted-foreground">
+                    {JSON.stringify(item.data, null, 2)}
+                  </pre>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="mt-2 space-y-1">
+            <input value={linkLabel} onChange={e => setLinkLabel(e.target.value)} placeholder="Label" className={inputClass} />
+            <div className="flex gap-1">
+              <input value={linkUrl} onChange={e => setLinkUrl(e.target.value)} placeholder="https://…" className={inputClass} />
+              <button
+                onClick={submitLink}
+                disabled={!linkUrl.trim()}
+                className="h-7 flex-shrink-0 rounded-sm border border-primary bg-primary/10 px-2 font-mono text-[10px] text-primary hover:bg-primary/20 disabled:opacity-50"
+              >
+                Attach
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Notes */}
+        <div>
+          <div className="mb-1.5 flex items-center gap-2">
+            <MessageSquare className="h-3.5 w-3.5 text-primary" />
+            <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Notes ({notes.length})</span>
+          </div>
+          <div className="space-y-1">
+            {notes.map(note => (
+              <div key={note.id} className="rounded-sm border border-border bg-card p-2">
+                <p className="whitespace-pre-wrap text-xs text-foreground">{note.body}</p>
+                <p className="mt-1 text-[9px] text-muted-foreground">{new Date(note.created_at).toLocaleString()}</p>
+              </div>
+            ))}
+          </div>
+          <textarea
+            value={noteDraft}
+            onChange={e => setNoteDraft(e.target.value)}
+            placeholder="Add a note…"
+            rows={3}
+            className="mt-2 w-full rounded-sm border border-border bg-secondary p-2 text-xs text-foreground placeholder:text-muted-foreground focus:border-primary focus:outline-none"
+          />
+          <button
+            onClick={submitNote}
+            disabled={!noteDraft.trim()}
+            className="mt-1 h-7 rounded-sm border border-primary bg-primary/10 px-3 font-mono text-[10px] text-primary hover:bg-primary/20 disabled:opacity-50"
+          >
+            Add Note
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,18 @@
+import { caseStatusLabel } from '@/lib/case-store';
+import type { CaseStatus } from '@/lib/types';
+
+const STATUS_CLASSES: Record<CaseStatus, string> = {
+  new: 'bg-primary/20 text-primary',
+  investigating: 'bg-accent/20 text-accent',
+  escalated: 'bg-danger/20 text-danger',
+  closed_false_positive: 'bg-secondary text-muted-foreground',
+  closed_sar_filed: 'bg-success/20 text-success',
+};
+
+export default function CaseStatusBadge({ status }: { status: CaseStatus }) {
+  return (
+    <span className={`whitespace-nowrap rounded-sm px-1.5 py-0.5 font-mono text-[9px] uppercase ${STATUS_CLASSES[status]}`}>
+      {caseStatusLabel(status)}
+    </span>
+  );
+}
@@ -0,0 +1,202 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, ArrowRight, Save, Trash2, X } from 'lucide-react';
+import { REQUIRED_COLUMNS } from '@/lib/csv-parser';
+import {
+  deleteMappingProfile,
+  findMatchingProfile,
+  loadMappingProfiles,
+  saveMappingProfile,
+  suggestMapping,
+  validateMapping,
+} from '@/lib/column-mapping';
+import type { CSVPreview, MappingProfile } from '@/lib/column-mapping';
+import type { ColumnMapping, RequiredColumn } from '@/lib/types';
+
+interface ColumnMappingStepProps {
+  fileName: string;
+  preview: CSVPreview;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const inputClass =
+  'h-8 rounded-sm border border-border bg-secondary px-2 font-mono text-xs text-foreground placeholder:text-muted-foreground focus:border-primary focus:outline-none';
+
+export default function ColumnMappingStep({ fileName, preview, onConfirm, onCancel }: ColumnMappingStepProps) {
+  const [profiles, setProfiles] = useState<MappingProfile[]>(loadMappingProfiles);
+  const [mapping, setMapping] = useState<Partial<ColumnMapping>>(() => {
+    const profile = findMatchingProfile(profiles, preview.headers);
+    return profile ? profile.mapping : suggestMapping(preview.headers);
+  });
+  const [profileName, setProfileName] = useState(
+    () => findMatchingProfile(profiles, preview.headers)?.name ?? ''
+  );
+
+  const errors = useMemo(() => validateMapping(mapping, preview.headers), [mapping, preview.headers]);
+
+  const setColumn = (col: RequiredColumn, header: string) => {
+    setMapping(m => ({ ...m, [col]: header || undefined }));
+  };
+
+  const applyProfile = (name: string) => {
+    const profile = profiles.find(p => p.name === name);
+    setProfileName(name);
+    if (profile) setMapping(profile.mapping);
+  };
+
+  const handleSave = () => {
+    const name = profileName.trim();
+    if (!name || errors.length > 0) return;
+    setProfiles(saveMappingProfile({ name, mapping: mapping as ColumnMapping }));
+  };
+
+  const handleDelete = () => {
+    setProfiles(deleteMappingProfile(profileName));
+    setProfileName('');
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center px-4 py-8 grid-bg">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-3xl rounded-lg border border-border bg-card"
+      >
+        <div className="border-b border-border p-4">
+          <h2 className="font-mono text-xs uppercase tracking-wider text-muted-foreground">Column Mapping</h2>
+          <p className="mt-1 font-mono text-sm text-foreground">{fileName}</p>
+        </div>
+
+        {/* Profiles */}
+        <div className="flex flex-wrap items-center gap-2 border-b border-border p-4">
+          <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Profile</span>
+          <select
+            value={profiles.some(p => p.name === profileName) ? profileName : ''}
+            onChange={(e) => applyProfile(e.target.value)}
+            className={inputClass}
+          >
+            <option value="">— none —</option>
+            {profiles.map(p => (
+              <option key={p.name} value={p.name}>{p.name}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="Profile name..."
+            className={inputClass}
+          />
+          <button
+            onClick={handleSave}
+            disabled={!profileName.trim() || errors.length > 0}
+            className="flex h-8 items-center gap-1.5 rounded-sm border border-border bg-secondary px-3 font-mono text-xs text-foreground transition-colors hover:bg-secondary/60 disabled:pointer-events-none disabled:opacity-50"
+          >
+            <Save className="h-3 w-3" />
+            Save
+          </button>
+          {profiles.some(p => p.name === profileName) && (
+            <button
+              onClick={handleDelete}
+              className="flex h-8 items-center gap-1.5 rounded-sm border border-border bg-card px-3 font-mono text-xs text-muted-foreground transition-colors hover:text-danger"
+            >
+              <Trash2 className="h-3 w-3" />
+              Delete
+            </button>
+          )}
+        </div>
+
+        {/* Mapping */}
+        <div className="grid grid-cols-1 gap-2 p-4 sm:grid-cols-2">
+          {REQUIRED_COLUMNS.map(col => (
+            <label key={col} className="flex items-center justify-between gap-2 rounded-sm border border-border bg-secondary/30 px-3 py-2">
+              <span className="font-mono text-xs text-foreground">{col}</span>
+              <select
+                value={mapping[col] ?? ''}
+                onChange={(e) => setColumn(col, e.target.value)}
+                className={`${inputClass} w-44`}
+              >
+                <option value="">— select column —</option>
+                {preview.headers.map(h => (
+                  <option key={h} value={h}>{h}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+          <label className="flex items-center justify-between gap-2 rounded-sm border border-dashed border-border px-3 py-2">
+            <span className="font-mono text-xs text-muted-foreground">currency (optional)</span>
+            <select
+              value={mapping.currency ?? ''}
+              onChange={(e) => setMapping(m => ({ ...m, currency: e.target.value || undefined }))}
+              className={`${inputClass} w-44`}
+            >
+              <option value="">— reporting currency —</option>
+              {preview.headers.map(h => (
+                <option key={h} value={h}>{h}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="space-y-1 px-4 pb-4">
+            {errors.map(err => (
+              <div key={err} className="flex items-center gap-2 text-xs text-destructive">
+                <AlertTriangle className="h-3 w-3" />
+                <span>{err}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Preview */}
+        <div className="overflow-x-auto border-t border-border">
+          <p className="px-4 pt-3 text-[10px] uppercase tracking-wider text-muted-foreground">
+            Preview (first {preview.rows.length} rows)
+          </p>
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border">
+                {REQUIRED_COLUMNS.map(col => (
+                  <th key={col} className="px-4 py-2 text-left font-mono text-[10px] uppercase tracking-wider text-muted-foreground">
+                    {col}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.rows.map((row, i) => (
+                <tr key={i} className="border-b border-border/50">
+                  {REQUIRED_COLUMNS.map(col => (
+                    <td key={col} className="max-w-[160px] truncate px-4 py-1.5 font-mono text-xs text-foreground">
+                      {mapping[col] ? row[mapping[col]!] : <span className="text-muted-foreground">—</span>}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-end gap-2 border-t border-border p-4">
+          <button
+            onClick={onCancel}
+            className="flex h-8 items-center gap-1.5 rounded-sm border border-border bg-card px-3 font-mono text-xs text-muted-foreground transition-colors hover:text-foreground"
+          >
+            <X className="h-3 w-3" />
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(mapping as ColumnMapping)}
+            disabled={errors.length > 0}
+            className="flex h-8 items-center gap-1.5 rounded-sm border border-primary bg-primary/10 px-3 font-mono text-xs text-primary transition-colors hover:bg-primary/20 disabled:pointer-events-none disabled:opacity-50"
+          >
+            Continue
+            <ArrowRight className="h-3 w-3" />
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
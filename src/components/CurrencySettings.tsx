@@ -0,0 +1,83 @@
+import { useCallback } from 'react';
+import { Coins, FileText, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { isCurrencyCode, parseFxRates } from '@/lib/fx-rates';
+import type { FxRateTable } from '@/lib/fx-rates';
+
+interface CurrencySettingsProps {
+  reportingCurrency: string;
+  onReportingCurrencyChange: (currency: string) => void;
+  fxRates: FxRateTable | null;
+  onFxRatesChange: (table: FxRateTable | null) => void;
+}
+
+export default function CurrencySettings({
+  reportingCurrency,
+  onReportingCurrencyChange,
+  fxRates,
+  onFxRatesChange,
+}: CurrencySettingsProps) {
+  const loadRates = useCallback(() => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.csv,.json';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      try {
+        const format = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+        const table = parseFxRates(await file.text(), format);
+        onFxRatesChange(table);
+        toast.success(`Loaded FX rates for ${Object.keys(table.rates).length} days (base ${table.base})`);
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Could not load FX rates');
+      }
+    };
+    input.click();
+  }, [onFxRatesChange]);
+
+  const currencyValid = isCurrencyCode(reportingCurrency);
+
+  return (
+    <div className="mt-4 w-full max-w-lg rounded-md border border-border bg-card p-4">
+      <div className="mb-3 flex items-center gap-2">
+        <Coins className="h-3.5 w-3.5 text-primary" />
+        <p className="text-xs font-medium uppercase tracking-wider text-muted-foreground">Currency</p>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2">
+          <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Report in</span>
+          <input
+            type="text"
+            value={reportingCurrency}
+            maxLength={3}
+            onChange={(e) => onReportingCurrencyChange(e.target.value.toUpperCase())}
+            className={`h-8 w-16 rounded-sm border bg-secondary px-2 font-mono text-xs text-foreground focus:outline-none ${
+              currencyValid ? 'border-border focus:border-primary' : 'border-danger'
+            }`}
+          />
+        </label>
+        {fxRates ? (
+          <div className="flex h-8 items-center gap-1.5 rounded-sm border border-border bg-secondary/50 px-3 font-mono text-xs text-foreground">
+            <FileText className="h-3 w-3 text-primary" />
+            FX base {fxRates.base} • {Object.keys(fxRates.rates).length} days
+            <button onClick={() => onFxRatesChange(null)} className="ml-1 text-muted-foreground hover:text-danger">
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={loadRates}
+            className="flex h-8 items-center gap-1.5 rounded-sm border border-border bg-secondary px-3 font-mono text-xs text-foreground transition-colors hover:bg-secondary/60"
+          >
+            <FileText className="h-3 w-3" />
+            Load FX Rates (CSV/JSON)
+          </button>
+        )}
+      </div>
+      <p className="mt-2 text-[10px] text-muted-foreground">
+        Optional <span className="font-mono">currency</span> column; rows in other currencies are converted with the daily rate on or before their date.
+      </p>
+    </div>
+  );
+}
@@ -3,18 +3,63 @@ import GraphVisualization from './GraphVisualization';
 import SummaryPanel from './SummaryPanel';
 import NodeDetailsPanel from './NodeDetailsPanel';
 import FraudRingTable from './FraudRingTable';
-import type { DetectionResult } from '@/lib/types';
-import { ArrowLeft, LogOut } from 'lucide-react';
+import CasePanel from './CasePanel';
+import RingDiffPanel from './RingDiffPanel';
+import type { Case, DetectionResult, FraudRing, RingDiff, SuspiciousAccount } from '@/lib/types';
+import { caseFromAccount, caseFromRing } from '@/lib/case-store';
+import type { NewCase } from '@/lib/case-store';
+import { useCases } from '@/hooks/useCases';
+import { ArrowLeft, FilePlus, History, LogOut } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 
 interface DashboardProps {
   result: DetectionResult;
+  /** Saved analysis the result belongs to, once persisted */
+  analysisId?: string | null;
+  /** Ring changes caused by the last appended batch */
+  batchDiff?: { diff: RingDiff; batchName: string } | null;
+  /** Append another CSV batch to this analysis; omitted when the session cannot */
+  onAppend?: (file: File) => void;
   onReset: () => void;
 }
 
-export default function Dashboard({ result, onReset }: DashboardProps) {
+export default function Dashboard({ result, analysisId = null, batchDiff = null, onAppend, onReset }: DashboardProps) {
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [selectedCaseId, setSelectedCaseId] = useState<string | null>(null);
   const { signOut } = useAuth();
+  const { cases, index: caseIndex, open: openNewCase, update: updateCaseRecord } = useCases(result.suspicious_accounts);
+  const selectedCase = cases.find(c => c.id === selectedCaseId);
+
+  const selectNode = (id: string | null) => {
+    setSelectedNodeId(id);
+    setSelectedCaseId(null);
+  };
+
+  // Show the subject's existing case, or open one
+  const showCase = async (existing: Case | undefined, create: () => NewCase) => {
+    if (existing) {
+      setSelectedCaseId(existing.id);
+      return;
+    }
+    const created = await openNewCase(create());
+    if (created) setSelectedCaseId(created.id);
+  };
+  const handleAccountCase = (account: SuspiciousAccount) =>
+    showCase(caseIndex.forAccount(account.account_id), () => caseFromAccount(account, analysisId));
+  const handleRingCase = (ring: FraudRing) =>
+    showCase(caseIndex.forRing(ring), () => caseFromRing(ring, analysisId));
+
+  const pickBatch = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.csv';
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) onAppend?.(file);
+    };
+    input.click();
+  };
 
   return (
     <div className="flex h-screen flex-col bg-background">
@@ -33,17 +78,29 @@ export default function Dashboard({ result, onReset }: DashboardProps) {
             </p>
           </div>
         </div>
-        <button onClick={signOut} className="flex items-center gap-1.5 text-muted-foreground transition-colors hover:text-foreground">
-          <LogOut className="h-4 w-4" />
-          <span className="text-xs">Sign Out</span>
-        </button>
+        <div className="flex items-center gap-4">
+          {onAppend && (
+            <button onClick={pickBatch} className="flex items-center gap-1.5 text-muted-foreground transition-colors hover:text-foreground">
+              <FilePlus className="h-4 w-4" />
+              <span className="text-xs">Append Batch</span>
+            </button>
+          )}
+          <Link to="/history" className="flex items-center gap-1.5 text-muted-foreground transition-colors hover:text-foreground">
+            <History className="h-4 w-4" />
+            <span className="text-xs">History</span>
+          </Link>
+          <button onClick={signOut} className="flex items-center gap-1.5 text-muted-foreground transition-colors hover:text-foreground">
+            <LogOut className="h-4 w-4" />
+            <span className="text-xs">Sign Out</span>
+          </button>
+        </div>
       </header>
 
       {/* Main content */}
       <div className="flex flex-1 overflow-hidden">
         {/* Left panel - Summary */}
         <aside className="w-72 flex-shrink-0 overflow-hidden border-r border-border bg-card lg:w-80">
-          <SummaryPanel result={result} onAccountSelect={setSelectedNodeId} />
+          <SummaryPanel result={result} cases={caseIndex} onAccountSelect={selectNode} />
         </aside>
 
         {/* Center - Graph */}
@@ -51,20 +108,36 @@ export default function Dashboard({ result, onReset }: DashboardProps) {
           <div className="flex-1 p-2">
             <GraphVisualization
               result={result}
-              onNodeSelect={setSelectedNodeId}
+              onNodeSelect={selectNode}
               selectedNodeId={selectedNodeId}
             />
           </div>
           {/* Bottom - Fraud Ring Table */}
           <div className="max-h-80 overflow-y-auto border-t border-border p-3">
-            <FraudRingTable result={result} />
+            {batchDiff && <RingDiffPanel diff={batchDiff.diff} batchName={batchDiff.batchName} />}
+            <FraudRingTable result={result} cases={caseIndex} onRingCase={handleRingCase} />
           </div>
         </main>
 
-        {/* Right panel - Node details */}
-        {selectedNodeId && (
+        {/* Right panel - Case or node details */}
+        {selectedCase ? (
           <aside className="w-72 flex-shrink-0 border-l border-border bg-card lg:w-80">
-            <NodeDetailsPanel result={result} nodeId={selectedNodeId} onClose={() => setSelectedNodeId(null)} />
+            <CasePanel
+              caseRecord={selectedCase}
+              onUpdate={updateCaseRecord}
+              onSelectAccount={selectNode}
+              onClose={() => setSelectedCaseId(null)}
+            />
+          </aside>
+        ) : selectedNodeId && (
+          <aside className="w-72 flex-shrink-0 border-l border-border bg-card lg:w-80">
+            <NodeDetailsPanel
+              result={result}
+              nodeId={selectedNodeId}
+              cases={caseIndex}
+              onAccountCase={handleAccountCase}
+              onClose={() => setSelectedNodeId(null)}
+            />
           </aside>
         )}
       </div>
@@ -0,0 +1,62 @@
+import { useCallback } from 'react';
+import { Building2, FileText, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { parseEntityRegistry } from '@/lib/entity-registry';
+import type { RegisteredEntity } from '@/lib/types';
+
+interface EntityRegistrySettingsProps {
+  registry: RegisteredEntity[] | null;
+  onRegistryChange: (registry: RegisteredEntity[] | null) => void;
+}
+
+export default function EntityRegistrySettings({ registry, onRegistryChange }: EntityRegistrySettingsProps) {
+  const loadRegistry = useCallback(() => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.csv';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      try {
+        const entities = parseEntityRegistry(await file.text());
+        onRegistryChange(entities);
+        toast.success(`Loaded ${entities.length} registered entities`);
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Could not load entity registry');
+      }
+    };
+    input.click();
+  }, [onRegistryChange]);
+
+  const excluded = registry?.filter(e => e.action === 'exclude').length ?? 0;
+
+  return (
+    <div className="mt-4 w-full max-w-lg rounded-md border border-border bg-card p-4">
+      <div className="mb-3 flex items-center gap-2">
+        <Building2 className="h-3.5 w-3.5 text-primary" />
+        <p className="text-xs font-medium uppercase tracking-wider text-muted-foreground">Entity Registry</p>
+      </div>
+      {registry ? (
+        <div className="flex h-8 w-fit items-center gap-1.5 rounded-sm border border-border bg-secondary/50 px-3 font-mono text-xs text-foreground">
+          <FileText className="h-3 w-3 text-primary" />
+          {registry.length} entities • {excluded} excluded, {registry.length - excluded} down-weighted
+          <button onClick={() => onRegistryChange(null)} className="ml-1 text-muted-foreground hover:text-danger">
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={loadRegistry}
+          className="flex h-8 items-center gap-1.5 rounded-sm border border-border bg-secondary px-3 font-mono text-xs text-foreground transition-colors hover:bg-secondary/60"
+        >
+          <FileText className="h-3 w-3" />
+          Load Registry (CSV)
+        </button>
+      )}
+      <p className="mt-2 text-[10px] text-muted-foreground">
+        Known payroll processors, merchants, exchanges and government accounts:{' '}
+        <span className="font-mono">account_id,entity_type,reason[,action]</span>. Excluded accounts are listed in the results.
+      </p>
+    </div>
+  );
+}
@@ -1,18 +1,37 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, Fragment } from 'react';
 import { motion } from 'framer-motion';
-import { Download, ArrowUpDown, Search } from 'lucide-react';
-import type { DetectionResult } from '@/lib/types';
+import { Download, ArrowUpDown, Search, ChevronRight, Briefcase } from 'lucide-react';
+import type { DetectionResult, FraudRing, RingEvidence } from '@/lib/types';
+import type { CaseIndex } from '@/lib/case-store';
+import CaseStatusBadge from './CaseStatusBadge';
+import { formatMoney } from '@/lib/fx-rates';
+import { resultToJSON } from '@/lib/result-json';
+import { detectorForPattern } from '@/lib/detector-registry';
+import type { DetectorTone } from '@/lib/detector-registry';
 
 interface FraudRingTableProps {
   result: DetectionResult;
+  cases: CaseIndex;
+  /** Open the ring's case, creating one if needed */
+  onRingCase: (ring: FraudRing) => void;
 }
 
 type SortKey = 'ring_id' | 'pattern_type' | 'risk_score' | 'members';
 
-export default function FraudRingTable({ result }: FraudRingTableProps) {
+export default function FraudRingTable({ result, cases, onRingCase }: FraudRingTableProps) {
   const [sortKey, setSortKey] = useState<SortKey>('risk_score');
   const [sortAsc, setSortAsc] = useState(false);
   const [filter, setFilter] = useState('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggleExpanded = (ringId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(ringId)) next.delete(ringId);
+      else next.add(ringId);
+      return next;
+    });
+  };
 
   const sorted = useMemo(() => {
     let rings = [...result.fraud_rings];
@@ -43,12 +62,7 @@ export default function FraudRingTable({ result }: FraudRingTableProps) {
   };
 
   const downloadJSON = () => {
-    const output = {
-      suspicious_accounts: result.suspicious_accounts,
-      fraud_rings: result.fraud_rings,
-      summary: result.summary,
-    };
-    const blob = new Blob([JSON.stringify(output, null, 2)], { type: 'application/json' });
+    const blob = new Blob([resultToJSON(result)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -92,6 +106,7 @@ export default function FraudRingTable({ result }: FraudRingTableProps) {
         <table className="w-full">
           <thead>
             <tr className="border-b border-border">
+              <th className="w-6" />
               {[
                 { key: 'ring_id' as SortKey, label: 'Ring ID' },
                 { key: 'pattern_type' as SortKey, label: 'Pattern' },
@@ -115,40 +130,69 @@ export default function FraudRingTable({ result }: FraudRingTableProps) {
             </tr>
           </thead>
           <tbody>
-            {sorted.map((ring, i) => (
-              <motion.tr
-                key={ring.ring_id}
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                transition={{ delay: i * 0.02 }}
-                className="border-b border-border/50 transition-colors hover:bg-secondary/30"
-              >
-                <td className="px-4 py-2.5 font-mono text-xs text-foreground">{ring.ring_id}</td>
-                <td className="px-4 py-2.5">
-                  <span className={`rounded-sm px-2 py-0.5 font-mono text-[10px] ${
-                    ring.pattern_type.includes('cycle') ? 'bg-danger/20 text-danger' :
-                    ring.pattern_type.includes('fan_in') || ring.pattern_type.includes('fan_out') ? 'bg-accent/20 text-accent' :
-                    'bg-primary/20 text-primary'
-                  }`}>
-                    {ring.pattern_type}
-                  </span>
-                </td>
-                <td className="px-4 py-2.5 font-mono text-xs text-foreground">{ring.member_accounts.length}</td>
-                <td className="px-4 py-2.5">
-                  <span className={`font-mono text-xs font-bold ${
-                    ring.risk_score >= 70 ? 'text-danger' : ring.risk_score >= 40 ? 'text-accent' : 'text-primary'
-                  }`}>
-                    {ring.risk_score}
-                  </span>
-                </td>
-                <td className="max-w-[300px] truncate px-4 py-2.5 font-mono text-[10px] text-muted-foreground">
-                  {ring.member_accounts.join(', ')}
-                </td>
-              </motion.tr>
-            ))}
+            {sorted.map((ring, i) => {
+              const ringCase = cases.forRing(ring);
+              return (
+                <Fragment key={ring.ring_id}>
+                  <motion.tr
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    transition={{ delay: i * 0.02 }}
+                    onClick={() => toggleExpanded(ring.ring_id)}
+                    className="cursor-pointer border-b border-border/50 transition-colors hover:bg-secondary/30"
+                  >
+                    <td className="pl-3">
+                      <ChevronRight className={`h-3 w-3 text-muted-foreground transition-transform ${expanded.has(ring.ring_id) ? 'rotate-90' : ''}`} />
+                    </td>
+                    <td className="px-4 py-2.5 font-mono text-xs text-foreground">
+                      <div className="flex items-center gap-1.5">
+                        {ring.ring_id}
+                        {ringCase && <CaseStatusBadge status={ringCase.status} />}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2.5">
+                      <span className={`rounded-sm px-2 py-0.5 font-mono text-[10px] ${
+                        TONE_BADGE[detectorForPattern(ring.pattern_type)?.tone ?? 'primary']
+                      }`}>
+                        {ring.pattern_type}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2.5 font-mono text-xs text-foreground">{ring.member_accounts.length}</td>
+                    <td className="px-4 py-2.5">
+                      <span className={`font-mono text-xs font-bold ${
+                        ring.risk_score >= 70 ? 'text-danger' : ring.risk_score >= 40 ? 'text-accent' : 'text-primary'
+                      }`}>
+                        {ring.risk_score}
+                      </span>
+                    </td>
+                    <td className="max-w-[300px] truncate px-4 py-2.5 font-mono text-[10px] text-muted-foreground">
+                      {ring.member_accounts.join(', ')}
+                    </td>
+                  </motion.tr>
+                  {expanded.has(ring.ring_id) && (
+                    <tr className="border-b border-border/50 bg-secondary/20">
+                      <td colSpan={6} className="px-4 py-3">
+                        <div className="space-y-2">
+                          <button
+                            onClick={() => onRingCase(ring)}
+                            className="flex h-7 items-center gap-1.5 rounded-sm border border-primary bg-primary/10 px-3 font-mono text-[10px] text-primary transition-colors hover:bg-primary/20"
+                          >
+                            <Briefcase className="h-3 w-3" />
+                            {ringCase ? 'View Case' : 'Open Case'}
+                          </button>
+                          {ring.evidence.map((ev, j) => (
+                            <EvidenceTrail key={j} evidence={ev} currency={result.reporting_currency} />
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
             {sorted.length === 0 && (
               <tr>
-                <td colSpan={5} className="px-4 py-8 text-center text-sm text-muted-foreground">
+                <td colSpan={6} className="px-4 py-8 text-center text-sm text-muted-foreground">
                   No fraud rings match the filter
                 </td>
               </tr>
@@ -159,3 +203,53 @@ export default function FraudRingTable({ result }: FraudRingTableProps) {
     </motion.div>
   );
 }
+
+const MAX_LISTED_TRANSACTIONS = 25;
+
+const TONE_BADGE: Record<DetectorTone, string> = {
+  danger: 'bg-danger/20 text-danger',
+  accent: 'bg-accent/20 text-accent',
+  primary: 'bg-primary/20 text-primary',
+};
+
+function EvidenceTrail({ evidence, currency }: { evidence: RingEvidence; currency: string }) {
+  const { path, hub_account, transaction_ids, intermediaries } = evidence;
+  const route = path
+    ? [...path, ...(evidence.pattern_type.startsWith('cycle') ? [path[0]] : [])].join(' → ')
+    : intermediaries
+      ? `${evidence.source_account} → [${intermediaries.join(', ')}] → ${hub_account}`
+      : `hub ${hub_account}`;
+
+  return (
+    <div className="rounded-sm border border-border bg-card p-2.5">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="font-mono text-[10px] text-primary">
+          {evidence.pattern_type}
+          {evidence.structuring_signal && ` • ${evidence.structuring_signal.replace('_', ' ')}`}
+        </span>
+        <span className="font-mono text-[10px] text-muted-foreground">
+          {new Date(evidence.window_start).toLocaleString()} – {new Date(evidence.window_end).toLocaleString()}
+        </span>
+      </div>
+      <p className="mt-1 break-all font-mono text-xs text-foreground">{route}</p>
+      <p className="mt-1 font-mono text-[10px] text-muted-foreground">
+        {transaction_ids.length} transactions • {formatMoney(evidence.total_value, currency)} moved
+        {evidence.pass_through_ratio !== undefined &&
+          ` • ${Math.round(evidence.pass_through_ratio * 100)}% forwarded, median dwell ${evidence.median_dwell_hours}h`}
+        {evidence.elapsed_hours !== undefined &&
+          ` • ${Math.round(evidence.value_conserved * 100)}% gathered within ${evidence.elapsed_hours}h`}
+        {evidence.dormant_days !== undefined && ` • after ${evidence.dormant_days} dormant days`}
+        {evidence.z_score !== undefined &&
+          ` • ${evidence.velocity_metric === 'value' ? 'value' : 'transactions'}/day z ${evidence.z_score}` +
+          ` (population ${evidence.population_z_score}) vs baseline ${evidence.baseline_per_day}/day`}
+        {evidence.hop_retention &&
+          ` • ${Math.round(evidence.value_conserved * 100)}% conserved end-to-end, kept per hop: ` +
+          evidence.hop_retention.map(r => `${Math.round(r * 100)}%`).join(' / ')}
+      </p>
+      <p className="mt-1 break-all font-mono text-[9px] text-muted-foreground">
+        {transaction_ids.slice(0, MAX_LISTED_TRANSACTIONS).join(', ')}
+        {transaction_ids.length > MAX_LISTED_TRANSACTIONS && ` … +${transaction_ids.length - MAX_LISTED_TRANSACTIONS} more`}
+      </p>
+    </div>
+  );
+}
@@ -14,6 +14,8 @@ const RING_COLORS = [
   '#8b5cf6', '#ec4899', '#f43f5e', '#14b8a6', '#a855f7',
 ];
 
+const WATCHLIST_COLOR = '#a3e635';
+
 function scoreColor(score: number): string {
   if (score >= 71) return '#ef4444'; // red
   if (score >= 41) return '#eab308'; // yellow
@@ -81,6 +83,8 @@ export default function GraphVisualization({ result, onNodeSelect, selectedNodeI
           size: isSusp ? 30 + Math.min(node.suspicionScore / 3, 20) : 18,
           ringId: ringId || '',
           inRing,
+          // Left undefined for non-hits so the watchlist selectors skip them
+          watchlistHops: node.watchlistHit?.hops,
         },
       });
     }
@@ -130,6 +134,14 @@ export default function GraphVisualization({ result, onNodeSelect, selectedNodeI
           selector: 'node[suspicious]',
           style: { 'border-width': 3 },
         },
+        {
+          selector: 'node[watchlistHops = 0]',
+          style: { 'shape': 'diamond', 'border-width': 4, 'border-color': WATCHLIST_COLOR, 'border-opacity': 1 },
+        },
+        {
+          selector: 'node[watchlistHops > 0]',
+          style: { 'border-width': 3, 'border-style': 'dashed', 'border-color': WATCHLIST_COLOR, 'border-opacity': 1 },
+        },
         {
           selector: 'node:selected',
           style: {
@@ -287,6 +299,9 @@ export default function GraphVisualization({ result, onNodeSelect, selectedNodeI
         <div className="flex items-center gap-1"><div className="h-2.5 w-2.5 rounded-full bg-[#3b82f6]" /><span className="font-mono text-[9px] text-muted-foreground">0-40</span></div>
         <div className="flex items-center gap-1"><div className="h-2.5 w-2.5 rounded-full bg-[#eab308]" /><span className="font-mono text-[9px] text-muted-foreground">41-70</span></div>
         <div className="flex items-center gap-1"><div className="h-2.5 w-2.5 rounded-full bg-[#ef4444]" /><span className="font-mono text-[9px] text-muted-foreground">71-100</span></div>
+        <span className="font-mono text-[9px] text-muted-foreground">Watchlist:</span>
+        <div className="flex items-center gap-1"><div className="h-2 w-2 rotate-45 border-2 border-[#a3e635]" /><span className="font-mono text-[9px] text-muted-foreground">listed</span></div>
+        <div className="flex items-center gap-1"><div className="h-2.5 w-2.5 rounded-full border-2 border-dashed border-[#a3e635]" /><span className="font-mono text-[9px] text-muted-foreground">nearby</span></div>
       </div>
 
       {/* Tooltip */}
@@ -0,0 +1,139 @@
+import { motion } from 'framer-motion';
+import { AlertTriangle, CheckCircle, Copy, Download, FileText, Play, Repeat, X } from 'lucide-react';
+import { rejectedRowsToCSV } from '@/lib/csv-parser';
+import type { IngestionReport } from '@/lib/types';
+
+interface IngestionReportPanelProps {
+  fileName: string;
+  report: IngestionReport;
+  onContinue: () => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 100;
+
+export default function IngestionReportPanel({ fileName, report, onContinue, onCancel }: IngestionReportPanelProps) {
+  const rejectedCount = report.rows_rejected.length;
+
+  const stats = [
+    { label: 'Rows Read', value: report.rows_read, icon: FileText, color: 'text-primary' },
+    { label: 'Accepted', value: report.rows_accepted, icon: CheckCircle, color: 'text-success' },
+    { label: 'Rejected', value: rejectedCount, icon: AlertTriangle, color: rejectedCount > 0 ? 'text-danger' : 'text-muted-foreground' },
+    { label: 'Duplicate IDs', value: report.duplicate_transaction_ids.length, icon: Copy, color: 'text-accent' },
+    { label: 'Self-Transfers', value: report.self_transfers.length, icon: Repeat, color: 'text-accent' },
+  ];
+
+  const downloadRejected = () => {
+    const blob = new Blob([rejectedRowsToCSV(report)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName.replace(/\.csv$/i, '') + '_rejected_rows.csv';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center px-4 py-8 grid-bg">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-3xl rounded-lg border border-border bg-card"
+      >
+        <div className="border-b border-border p-4">
+          <h2 className="font-mono text-xs uppercase tracking-wider text-muted-foreground">Ingestion Report</h2>
+          <p className="mt-1 font-mono text-sm text-foreground">{fileName}</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 p-4 sm:grid-cols-5">
+          {stats.map(stat => (
+            <div key={stat.label} className="rounded-md border border-border bg-secondary/50 p-3">
+              <div className="flex items-center gap-2">
+                <stat.icon className={`h-3.5 w-3.5 ${stat.color}`} />
+                <span className="text-[10px] uppercase tracking-wider text-muted-foreground">{stat.label}</span>
+              </div>
+              <p className={`mt-1 font-mono text-xl font-bold ${stat.color}`}>{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {Object.keys(report.currencies).length > 0 && (
+          <div className="flex flex-wrap items-center gap-1.5 px-4 pb-4">
+            <span className="text-[10px] uppercase tracking-wider text-muted-foreground">
+              Currencies → {report.reporting_currency}
+            </span>
+            {Object.entries(report.currencies).map(([currency, count]) => (
+              <span key={currency} className="rounded-sm bg-secondary px-1.5 py-0.5 font-mono text-[10px] text-muted-foreground">
+                {currency} × {count}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {rejectedCount > 0 && (
+          <div className="border-t border-border">
+            <div className="flex items-center justify-between px-4 py-2">
+              <span className="text-[10px] uppercase tracking-wider text-muted-foreground">
+                Rejected Rows{rejectedCount > PREVIEW_ROWS ? ` (first ${PREVIEW_ROWS} of ${rejectedCount})` : ''}
+              </span>
+              <button
+                onClick={downloadRejected}
+                className="flex h-8 items-center gap-1.5 rounded-sm border border-border bg-secondary px-3 font-mono text-xs text-foreground transition-colors hover:bg-secondary/60"
+              >
+                <Download className="h-3 w-3" />
+                Download Rejected CSV
+              </button>
+            </div>
+            <div className="max-h-64 overflow-y-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-border">
+                    {['Line', 'Column', 'Reason'].map(label => (
+                      <th key={label} className="px-4 py-2 text-left font-mono text-[10px] uppercase tracking-wider text-muted-foreground">
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.rows_rejected.slice(0, PREVIEW_ROWS).map((r, i) => (
+                    <tr key={i} className="border-b border-border/50">
+                      <td className="px-4 py-1.5 font-mono text-xs text-foreground">{r.line}</td>
+                      <td className="px-4 py-1.5 font-mono text-xs text-muted-foreground">{r.column ?? '—'}</td>
+                      <td className="px-4 py-1.5 font-mono text-xs text-danger">{r.reason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2 border-t border-border p-4">
+          <p className="text-xs text-muted-foreground">
+            {report.rows_accepted === 0
+              ? 'No valid transactions to analyze.'
+              : `${report.rows_accepted} transactions will be analyzed.`}
+          </p>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onCancel}
+              className="flex h-8 items-center gap-1.5 rounded-sm border border-border bg-card px-3 font-mono text-xs text-muted-foreground transition-colors hover:text-foreground"
+            >
+              <X className="h-3 w-3" />
+              Cancel
+            </button>
+            <button
+              onClick={onContinue}
+              disabled={report.rows_accepted === 0}
+              className="flex h-8 items-center gap-1.5 rounded-sm border border-primary bg-primary/10 px-3 font-mono text-xs text-primary transition-colors hover:bg-primary/20 disabled:pointer-events-none disabled:opacity-50"
+            >
+              <Play className="h-3 w-3" />
+              Run Analysis
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
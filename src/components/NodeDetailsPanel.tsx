@@ -1,48 +1,35 @@
 import { motion } from 'framer-motion';
-import { X, AlertTriangle, ArrowDownLeft, ArrowUpRight, Info } from 'lucide-react';
-import type { DetectionResult } from '@/lib/types';
+import { X, AlertTriangle, ArrowDownLeft, ArrowUpRight, Info, Briefcase, ShieldAlert } from 'lucide-react';
+import type { DetectionResult, SuspiciousAccount } from '@/lib/types';
+import type { CaseIndex } from '@/lib/case-store';
+import CaseStatusBadge from './CaseStatusBadge';
+import { formatMoney } from '@/lib/fx-rates';
+import { describeWatchlistEntry } from '@/lib/watchlist';
+import ScoreWaterfall from './ScoreWaterfall';
+import ActivitySparkline from './ActivitySparkline';
 
 interface NodeDetailsPanelProps {
   result: DetectionResult;
   nodeId: string;
+  cases: CaseIndex;
+  /** Open the account's case, creating one if needed */
+  onAccountCase: (account: SuspiciousAccount) => void;
   onClose: () => void;
 }
 
-function generateWhyFlagged(account: { detected_patterns: string[]; suspicion_score: number } | undefined, node: any, rings: any[]): string[] {
-  const reasons: string[] = [];
-  if (!account) return reasons;
-
-  for (const p of account.detected_patterns) {
-    if (p.startsWith('cycle_length_')) {
-      const len = p.replace('cycle_length_', '');
-      reasons.push(`Part of circular fund routing (cycle of length ${len})`);
-    }
-    if (p === 'fan_in_72h') {
-      reasons.push(`${node.inDegree}+ incoming transfers within 72-hour window (smurfing fan-in)`);
-    }
-    if (p === 'fan_out_72h') {
-      reasons.push(`Sent funds to ${node.outDegree}+ receivers within 72-hour window (smurfing fan-out)`);
-    }
-    if (p === 'shell_network') {
-      reasons.push(`Shell intermediary in multi-hop laundering chain`);
-    }
-  }
-
-  if (rings.length > 1) {
-    reasons.push(`Member of ${rings.length} distinct fraud rings`);
-  }
-
-  return reasons;
-}
-
-export default function NodeDetailsPanel({ result, nodeId, onClose }: NodeDetailsPanelProps) {
+export default function NodeDetailsPanel({ result, nodeId, cases, onAccountCase, onClose }: NodeDetailsPanelProps) {
   const node = result.graph.nodes.find(n => n.id === nodeId);
   const account = result.suspicious_accounts.find(a => a.account_id === nodeId);
   const rings = result.fraud_rings.filter(r => r.member_accounts.includes(nodeId));
 
   if (!node) return null;
+  const accountCase = cases.forAccount(nodeId);
 
-  const whyFlagged = generateWhyFlagged(account, node, rings);
+  const currency = result.reporting_currency;
+  const foreignTotals = (totals: Record<string, number>) =>
+    Object.entries(totals)
+      .filter(([c]) => c !== currency)
+      .map(([c, v]) => formatMoney(v, c));
 
   const recentTx = [...node.transactions]
     .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
@@ -79,6 +66,16 @@ export default function NodeDetailsPanel({ result, nodeId, onClose }: NodeDetail
               <span className="text-xs font-medium text-foreground">Suspicion Score</span>
             </div>
             <p className="mt-1 font-mono text-3xl font-black text-foreground">{account.suspicion_score}</p>
+            <div className="mt-2 flex items-center gap-2">
+              {accountCase && <CaseStatusBadge status={accountCase.status} />}
+              <button
+                onClick={() => onAccountCase(account)}
+                className="flex h-6 items-center gap-1 rounded-sm border border-primary bg-primary/10 px-2 font-mono text-[10px] text-primary transition-colors hover:bg-primary/20"
+              >
+                <Briefcase className="h-3 w-3" />
+                {accountCase ? 'View Case' : 'Open Case'}
+              </button>
+            </div>
             <div className="mt-2 flex flex-wrap gap-1">
               {account.detected_patterns.map(p => (
                 <span key={p} className="rounded-sm bg-secondary px-1.5 py-0.5 font-mono text-[9px] text-muted-foreground">{p}</span>
@@ -88,38 +85,56 @@ export default function NodeDetailsPanel({ result, nodeId, onClose }: NodeDetail
         )}
 
         {/* Why Flagged */}
-        {whyFlagged.length > 0 && (
+        {account && account.score_breakdown.length > 0 && (
           <div className="rounded-md border border-border bg-secondary/30 p-3">
             <div className="flex items-center gap-2 mb-2">
               <Info className="h-3.5 w-3.5 text-primary" />
-              <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Why Flagged?</span>
+              <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Why Flagged? Score Breakdown</span>
             </div>
-            <ul className="space-y-1.5">
-              {whyFlagged.map((reason, i) => (
-                <li key={i} className="flex items-start gap-2">
-                  <span className="mt-0.5 h-1.5 w-1.5 flex-shrink-0 rounded-full bg-danger" />
-                  <span className="text-xs text-foreground">{reason}</span>
-                </li>
-              ))}
-            </ul>
+            <ScoreWaterfall breakdown={account.score_breakdown} />
           </div>
         )}
 
         {/* Stats */}
         <div className="grid grid-cols-2 gap-2">
           {[
-            { label: 'In-Degree', value: node.inDegree },
-            { label: 'Out-Degree', value: node.outDegree },
-            { label: 'Total In', value: `$${node.totalIn.toLocaleString()}` },
-            { label: 'Total Out', value: `$${node.totalOut.toLocaleString()}` },
+            { label: 'In-Degree', value: node.inDegree, foreign: [] },
+            { label: 'Out-Degree', value: node.outDegree, foreign: [] },
+            { label: 'Total In', value: formatMoney(node.totalIn, currency), foreign: foreignTotals(node.totalInByCurrency) },
+            { label: 'Total Out', value: formatMoney(node.totalOut, currency), foreign: foreignTotals(node.totalOutByCurrency) },
           ].map(s => (
             <div key={s.label} className="rounded-sm border border-border bg-card p-2">
               <p className="text-[9px] uppercase text-muted-foreground">{s.label}</p>
               <p className="font-mono text-sm font-bold text-foreground">{s.value}</p>
+              {s.foreign.length > 0 && (
+                <p className="font-mono text-[9px] text-muted-foreground">incl. {s.foreign.join(' + ')}</p>
+              )}
             </div>
           ))}
         </div>
 
+        {/* Activity timeline */}
+        <div className="rounded-sm border border-border bg-card p-2">
+          <p className="mb-1 text-[9px] uppercase text-muted-foreground">Activity</p>
+          <ActivitySparkline transactions={node.transactions} accountId={nodeId} currency={currency} />
+        </div>
+
+        {/* Watchlist */}
+        {node.watchlistHit && (
+          <div className="rounded-md border border-[#a3e635]/50 bg-[#a3e635]/10 p-3">
+            <div className="flex items-center gap-2">
+              <ShieldAlert className="h-3.5 w-3.5 text-[#a3e635]" />
+              <span className="text-[10px] uppercase tracking-wider text-muted-foreground">
+                {node.watchlistHit.hops === 0 ? 'Watchlisted Account' : `Watchlist Hit • ${node.watchlistHit.hops} hops`}
+              </span>
+            </div>
+            <p className="mt-1 font-mono text-xs text-foreground">{describeWatchlistEntry(node.watchlistHit.entry)}</p>
+            {node.watchlistHit.hops > 0 && (
+              <p className="mt-1 break-all font-mono text-[10px] text-muted-foreground">{node.watchlistHit.path.join(' ↔ ')}</p>
+            )}
+          </div>
+        )}
+
         {/* Rings */}
         {rings.length > 0 && (
           <div>
@@ -155,9 +170,16 @@ export default function NodeDetailsPanel({ result, nodeId, onClose }: NodeDetail
                     </p>
                     <p className="text-[9px] text-muted-foreground">{tx.timestamp.toLocaleString()}</p>
                   </div>
-                  <span className={`font-mono text-xs font-medium ${isSender ? 'text-danger' : 'text-success'}`}>
-                    ${tx.amount.toLocaleString()}
-                  </span>
+                  <div className="text-right">
+                    <p className={`font-mono text-xs font-medium ${isSender ? 'text-danger' : 'text-success'}`}>
+                      {formatMoney(tx.amount, currency)}
+                    </p>
+                    {tx.currency && tx.currency !== currency && (
+                      <p className="font-mono text-[9px] text-muted-foreground">
+                        {formatMoney(tx.original_amount ?? tx.amount, tx.currency)}
+                      </p>
+                    )}
+                  </div>
                 </div>
               );
             })}
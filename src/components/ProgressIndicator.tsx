@@ -1,7 +1,13 @@
 import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
 import type { AnalysisProgress } from '@/lib/types';
 
-export default function ProgressIndicator({ progress }: { progress: AnalysisProgress }) {
+interface ProgressIndicatorProps {
+  progress: AnalysisProgress;
+  onCancel?: () => void;
+}
+
+export default function ProgressIndicator({ progress, onCancel }: ProgressIndicatorProps) {
   return (
     <div className="flex min-h-screen flex-col items-center justify-center px-4 grid-bg">
       <motion.div
@@ -31,6 +37,16 @@ export default function ProgressIndicator({ progress }: { progress: AnalysisProg
         </div>
 
         <p className="mt-2 font-mono text-xs text-muted-foreground">{progress.percent}%</p>
+
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="mx-auto mt-6 flex h-8 items-center gap-1.5 rounded-sm border border-border bg-card px-3 font-mono text-xs text-muted-foreground transition-colors hover:border-danger hover:text-danger"
+          >
+            <X className="h-3 w-3" />
+            Cancel
+          </button>
+        )}
       </motion.div>
     </div>
   );
@@ -0,0 +1,64 @@
+import { motion } from 'framer-motion';
+import { GitCompare } from 'lucide-react';
+import type { FraudRing, RingDiff } from '@/lib/types';
+
+interface RingDiffPanelProps {
+  diff: RingDiff;
+  /** File name of the batch that produced the diff */
+  batchName: string;
+}
+
+type Row = { kind: 'new' | 'changed' | 'resolved'; ring: FraudRing; detail: string };
+
+const KIND_CLASSES: Record<Row['kind'], string> = {
+  new: 'bg-danger/20 text-danger',
+  changed: 'bg-accent/20 text-accent',
+  resolved: 'bg-success/20 text-success',
+};
+
+export default function RingDiffPanel({ diff, batchName }: RingDiffPanelProps) {
+  const rows: Row[] = [
+    ...diff.new_rings.map(ring => ({ kind: 'new' as const, ring, detail: `${ring.member_accounts.length} members` })),
+    ...diff.changed_rings.map(({ previous, current, added_members, removed_members }) => ({
+      kind: 'changed' as const,
+      ring: current,
+      detail: [
+        added_members.length > 0 && `+${added_members.join(', +')}`,
+        removed_members.length > 0 && `−${removed_members.join(', −')}`,
+        previous.pattern_type !== current.pattern_type && `was ${previous.pattern_type}`,
+        previous.risk_score !== current.risk_score && `risk ${previous.risk_score} → ${current.risk_score}`,
+      ].filter(Boolean).join(' • '),
+    })),
+    ...diff.resolved_rings.map(ring => ({ kind: 'resolved' as const, ring, detail: ring.member_accounts.join(', ') })),
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-3 rounded-lg border border-border bg-card"
+    >
+      <div className="flex items-center gap-2 border-b border-border p-3">
+        <GitCompare className="h-3.5 w-3.5 text-primary" />
+        <h3 className="font-mono text-xs uppercase tracking-wider text-muted-foreground">
+          Changes after {batchName} • {diff.new_rings.length} new • {diff.changed_rings.length} changed •{' '}
+          {diff.resolved_rings.length} resolved • {diff.unchanged_rings} unchanged
+        </h3>
+      </div>
+      {rows.length > 0 && (
+        <div className="max-h-40 overflow-y-auto p-2">
+          {rows.map(({ kind, ring, detail }) => (
+            <div key={`${kind}-${ring.ring_id}`} className="flex items-center gap-2 px-1 py-1">
+              <span className={`w-16 rounded-sm px-1.5 py-0.5 text-center font-mono text-[9px] uppercase ${KIND_CLASSES[kind]}`}>
+                {kind}
+              </span>
+              <span className="font-mono text-xs text-foreground">{ring.ring_id}</span>
+              <span className="font-mono text-[10px] text-primary">{ring.pattern_type}</span>
+              <span className="truncate font-mono text-[10px] text-muted-foreground">{detail}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,43 @@
+import type { ScoreBreakdown } from '@/lib/types';
+
+interface ScoreWaterfallProps {
+  breakdown: ScoreBreakdown;
+}
+
+/** Each factor is a bar from the running total before it to the total after it, on a 0–100 scale. */
+export default function ScoreWaterfall({ breakdown }: ScoreWaterfallProps) {
+  let running = 0;
+  const steps = breakdown.map(f => {
+    const from = running;
+    running = Math.round((running + f.delta) * 10) / 10;
+    return { ...f, from, to: running };
+  });
+
+  const pct = (v: number) => `${Math.min(100, Math.max(0, v))}%`;
+
+  return (
+    <ul className="space-y-2">
+      {steps.map((step, i) => (
+        <li key={i}>
+          <div className="flex items-center justify-between gap-2">
+            <span className="truncate font-mono text-[10px] text-foreground">{step.factor}</span>
+            <span className={`font-mono text-[10px] font-bold ${step.delta >= 0 ? 'text-danger' : 'text-success'}`}>
+              {step.delta >= 0 ? '+' : ''}{step.delta}
+            </span>
+          </div>
+          <div className="relative mt-0.5 h-1.5 w-full rounded-full bg-secondary">
+            <div
+              className={`absolute h-full rounded-full ${step.delta >= 0 ? 'bg-danger/70' : 'bg-success/70'}`}
+              style={{ left: pct(Math.min(step.from, step.to)), width: pct(Math.abs(step.to - step.from)) }}
+            />
+          </div>
+          <p className="mt-0.5 text-[9px] text-muted-foreground">{step.evidence}</p>
+        </li>
+      ))}
+      <li className="flex items-center justify-between border-t border-border pt-1.5">
+        <span className="font-mono text-[10px] uppercase text-muted-foreground">Total</span>
+        <span className="font-mono text-xs font-bold text-foreground">{running}</span>
+      </li>
+    </ul>
+  );
+}
@@ -1,14 +1,27 @@
+import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Shield, Users, AlertTriangle, Clock, Activity, Network } from 'lucide-react';
+import { Shield, Users, AlertTriangle, Clock, Activity, Network, EyeOff, ChevronRight } from 'lucide-react';
 import type { DetectionResult } from '@/lib/types';
+import { DETECTORS, detectorForPattern } from '@/lib/detector-registry';
+import type { DetectorTone } from '@/lib/detector-registry';
+import type { CaseIndex } from '@/lib/case-store';
+import CaseStatusBadge from './CaseStatusBadge';
+
+const TONE_TEXT: Record<DetectorTone, string> = {
+  danger: 'text-danger',
+  accent: 'text-accent',
+  primary: 'text-primary',
+};
 
 interface SummaryPanelProps {
   result: DetectionResult;
+  cases: CaseIndex;
   onAccountSelect: (id: string) => void;
 }
 
-export default function SummaryPanel({ result, onAccountSelect }: SummaryPanelProps) {
-  const { summary, suspicious_accounts } = result;
+export default function SummaryPanel({ result, cases, onAccountSelect }: SummaryPanelProps) {
+  const { summary, suspicious_accounts, exclusions } = result;
+  const [showExclusions, setShowExclusions] = useState(false);
 
   const stats = [
     { label: 'Accounts Analyzed', value: summary.total_accounts_analyzed, icon: Users, color: 'text-primary' },
@@ -38,6 +51,56 @@ export default function SummaryPanel({ result, onAccountSelect }: SummaryPanelPr
         ))}
       </div>
 
+      {summary.suppressed_by_feedback > 0 && (
+        <p className="mx-3 mb-2 font-mono text-[10px] text-muted-foreground">
+          {summary.suppressed_by_feedback} flagged account{summary.suppressed_by_feedback === 1 ? '' : 's'}{' '}
+          {result.config.feedback_suppress ? 'suppressed' : 'down-weighted'} by analyst feedback
+        </p>
+      )}
+
+      {result.warnings.length > 0 && (
+        <div className="mx-3 mb-2 rounded-md border border-accent/50 bg-accent/10 p-2">
+          {result.warnings.map(w => (
+            <p key={w} className="flex gap-1.5 text-[10px] text-accent">
+              <AlertTriangle className="mt-0.5 h-3 w-3 flex-shrink-0" />
+              {w}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {exclusions.length > 0 && (
+        <div className="mx-3 mb-2 rounded-md border border-border bg-secondary/30 p-2">
+          <button
+            onClick={() => setShowExclusions(!showExclusions)}
+            className="flex w-full items-center gap-1.5 text-left text-[10px] uppercase tracking-wider text-muted-foreground hover:text-foreground"
+          >
+            <ChevronRight className={`h-3 w-3 transition-transform ${showExclusions ? 'rotate-90' : ''}`} />
+            <EyeOff className="h-3 w-3" />
+            Excluded / Down-weighted ({exclusions.length})
+          </button>
+          {showExclusions && (
+            <div className="mt-1.5 max-h-40 space-y-1 overflow-y-auto">
+              {exclusions.map(e => (
+                <button
+                  key={e.account_id}
+                  onClick={() => onAccountSelect(e.account_id)}
+                  className="block w-full rounded-sm px-1 py-0.5 text-left hover:bg-secondary/60"
+                >
+                  <p className="font-mono text-[10px] text-foreground">
+                    {e.account_id}{' '}
+                    <span className="text-muted-foreground">
+                      {e.action === 'excluded' ? 'excluded' : 'down-weighted'} • {e.entity_type ?? 'volume threshold'}
+                    </span>
+                  </p>
+                  <p className="text-[9px] text-muted-foreground">{e.reason}</p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Detection breakdown */}
       <div className="border-t border-border px-3 py-2">
         <div className="flex items-center gap-2 mb-2">
@@ -45,11 +108,11 @@ export default function SummaryPanel({ result, onAccountSelect }: SummaryPanelPr
           <span className="text-[10px] uppercase tracking-wider text-muted-foreground">Detection Breakdown</span>
         </div>
         <div className="grid grid-cols-3 gap-1.5 text-center">
-          {[
-            { label: 'Cycles', count: result.fraud_rings.filter(r => r.pattern_type.includes('cycle')).length, color: 'text-danger' },
-            { label: 'Smurfing', count: result.fraud_rings.filter(r => r.pattern_type.includes('fan_in') || r.pattern_type.includes('fan_out')).length, color: 'text-accent' },
-            { label: 'Shell', count: result.fraud_rings.filter(r => r.pattern_type.includes('shell')).length, color: 'text-primary' },
-          ].map(d => (
+          {DETECTORS.map(detector => ({
+            label: detector.displayName,
+            count: result.fraud_rings.filter(r => detectorForPattern(r.pattern_type) === detector).length,
+            color: TONE_TEXT[detector.tone],
+          })).map(d => (
             <div key={d.label} className="rounded-sm border border-border bg-card p-2">
               <p className={`font-mono text-lg font-bold ${d.color}`}>{d.count}</p>
               <p className="text-[9px] uppercase text-muted-foreground">{d.label}</p>
@@ -67,28 +130,34 @@ export default function SummaryPanel({ result, onAccountSelect }: SummaryPanelPr
           </span>
         </div>
         <div className="h-full overflow-y-auto px-3 pb-16 space-y-1">
-          {suspicious_accounts.slice(0, 50).map((acc, i) => (
-            <motion.button
-              key={acc.account_id}
-              initial={{ opacity: 0, x: -10 }}
-              animate={{ opacity: 1, x: 0 }}
-              transition={{ delay: i * 0.02 }}
-              onClick={() => onAccountSelect(acc.account_id)}
-              className="flex w-full items-center justify-between rounded-sm border border-border bg-secondary/30 px-2.5 py-1.5 text-left transition-colors hover:bg-secondary/60"
-            >
-              <div className="min-w-0">
-                <p className="truncate font-mono text-xs text-foreground">{acc.account_id}</p>
-                <p className="text-[9px] text-muted-foreground">{acc.detected_patterns.join(', ')}</p>
-              </div>
-              <div className={`ml-2 flex-shrink-0 rounded-sm px-2 py-0.5 font-mono text-xs font-bold ${
-                acc.suspicion_score >= 70 ? 'bg-danger/20 text-danger' :
-                acc.suspicion_score >= 40 ? 'bg-accent/20 text-accent' :
-                'bg-primary/20 text-primary'
-              }`}>
-                {acc.suspicion_score}
-              </div>
-            </motion.button>
-          ))}
+          {suspicious_accounts.slice(0, 50).map((acc, i) => {
+            const accountCase = cases.forAccount(acc.account_id);
+            return (
+              <motion.button
+                key={acc.account_id}
+                initial={{ opacity: 0, x: -10 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: i * 0.02 }}
+                onClick={() => onAccountSelect(acc.account_id)}
+                className="flex w-full items-center justify-between rounded-sm border border-border bg-secondary/30 px-2.5 py-1.5 text-left transition-colors hover:bg-secondary/60"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-1.5">
+                    <p className="truncate font-mono text-xs text-foreground">{acc.account_id}</p>
+                    {accountCase && <CaseStatusBadge status={accountCase.status} />}
+                  </div>
+                  <p className="text-[9px] text-muted-foreground">{acc.detected_patterns.join(', ')}</p>
+                </div>
+                <div className={`ml-2 flex-shrink-0 rounded-sm px-2 py-0.5 font-mono text-xs font-bold ${
+                  acc.suspicion_score >= 70 ? 'bg-danger/20 text-danger' :
+                  acc.suspicion_score >= 40 ? 'bg-accent/20 text-accent' :
+                  'bg-primary/20 text-primary'
+                }`}>
+                  {acc.suspicion_score}
+                </div>
+              </motion.button>
+            );
+          })}
         </div>
       </div>
     </div>
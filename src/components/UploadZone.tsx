@@ -5,9 +5,10 @@ import { Upload, FileText, AlertTriangle, CheckCircle } from 'lucide-react';
 interface UploadZoneProps {
   onFileAccepted: (file: File) => void;
   isProcessing: boolean;
+  children?: React.ReactNode;
 }
 
-export default function UploadZone({ onFileAccepted, isProcessing }: UploadZoneProps) {
+export default function UploadZone({ onFileAccepted, isProcessing, children }: UploadZoneProps) {
   const [dragOver, setDragOver] = useState(false);
   const [fileName, setFileName] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -91,6 +92,7 @@ export default function UploadZone({ onFileAccepted, isProcessing }: UploadZoneP
         </p>
         <p className="text-xs text-muted-foreground">
           Required columns: transaction_id, sender_id, receiver_id, amount, timestamp
+          <span className="block">Other header names can be mapped after upload</span>
         </p>
 
         {fileName && !error && (
@@ -122,6 +124,8 @@ export default function UploadZone({ onFileAccepted, isProcessing }: UploadZoneP
 TXN_001,ACC_001,ACC_002,5000.00,2024-01-15 10:30:00`}
         </pre>
       </motion.div>
+
+      {children}
     </motion.div>
   );
 }
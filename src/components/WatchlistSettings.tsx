@@ -0,0 +1,60 @@
+import { useCallback } from 'react';
+import { FileText, ShieldAlert, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { parseWatchlist } from '@/lib/watchlist';
+import type { WatchlistEntry } from '@/lib/types';
+
+interface WatchlistSettingsProps {
+  watchlist: WatchlistEntry[] | null;
+  onWatchlistChange: (watchlist: WatchlistEntry[] | null) => void;
+}
+
+export default function WatchlistSettings({ watchlist, onWatchlistChange }: WatchlistSettingsProps) {
+  const loadWatchlist = useCallback(() => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.csv';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      try {
+        const entries = parseWatchlist(await file.text());
+        onWatchlistChange(entries);
+        toast.success(`Loaded ${entries.length} watchlisted accounts`);
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Could not load watchlist');
+      }
+    };
+    input.click();
+  }, [onWatchlistChange]);
+
+  return (
+    <div className="mt-4 w-full max-w-lg rounded-md border border-border bg-card p-4">
+      <div className="mb-3 flex items-center gap-2">
+        <ShieldAlert className="h-3.5 w-3.5 text-primary" />
+        <p className="text-xs font-medium uppercase tracking-wider text-muted-foreground">Watchlist</p>
+      </div>
+      {watchlist ? (
+        <div className="flex h-8 w-fit items-center gap-1.5 rounded-sm border border-border bg-secondary/50 px-3 font-mono text-xs text-foreground">
+          <FileText className="h-3 w-3 text-primary" />
+          {watchlist.length} watchlisted accounts
+          <button onClick={() => onWatchlistChange(null)} className="ml-1 text-muted-foreground hover:text-danger">
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={loadWatchlist}
+          className="flex h-8 items-center gap-1.5 rounded-sm border border-border bg-secondary px-3 font-mono text-xs text-foreground transition-colors hover:bg-secondary/60"
+        >
+          <FileText className="h-3 w-3" />
+          Load Watchlist (CSV)
+        </button>
+      )}
+      <p className="mt-2 text-[10px] text-muted-foreground">
+        Known bad accounts: <span className="font-mono">account_id[,name,aliases]</span>, aliases separated by{' '}
+        <span className="font-mono">;</span>. Accounts within a few hops of one are flagged.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { dispositionsForCase, indexCases, listCases, openCase, recordDispositions, updateCase } from '@/lib/case-store';
+import type { NewCase } from '@/lib/case-store';
+import type { Case, SuspiciousAccount } from '@/lib/types';
+import { toast } from 'sonner';
+
+/**
+ * The signed-in user's cases, indexed for badge lookups. Closing a case
+ * records dispositions for its accounts against the given flagged accounts.
+ */
+export function useCases(accounts: SuspiciousAccount[]) {
+  const [cases, setCases] = useState<Case[]>([]);
+
+  useEffect(() => {
+    listCases(supabase)
+      .then(setCases)
+      .catch(err => toast.error(err instanceof Error ? err.message : 'Failed to load cases'));
+  }, []);
+
+  const index = useMemo(() => indexCases(cases), [cases]);
+
+  const open = useCallback(async (newCase: NewCase): Promise<Case | null> => {
+    try {
+      const created = await openCase(supabase, newCase);
+      setCases(prev => [created, ...prev]);
+      return created;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to open case');
+      return null;
+    }
+  }, []);
+
+  const update = useCallback(async (id: string, changes: Parameters<typeof updateCase>[2]) => {
+    try {
+      const updated = await updateCase(supabase, id, changes);
+      setCases(prev => prev.map(c => (c.id === id ? updated : c)));
+      if (changes.status) {
+        const dispositions = dispositionsForCase(updated, changes.status, accounts);
+        await recordDispositions(supabase, id, dispositions);
+        if (dispositions.length > 0) toast.success('Disposition recorded; it will be applied to future analyses');
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update case');
+    }
+  }, [accounts]);
+
+  return { cases, index, open, update };
+}
@@ -14,7 +14,273 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      account_dispositions: {
+        Row: {
+          account_id: string
+          case_id: string | null
+          decided_at: string
+          disposition: string
+          id: string
+          pattern_type: string | null
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          case_id?: string | null
+          decided_at?: string
+          disposition: string
+          id?: string
+          pattern_type?: string | null
+          user_id?: string
+        }
+        Update: {
+          account_id?: string
+          case_id?: string | null
+          decided_at?: string
+          disposition?: string
+          id?: string
+          pattern_type?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_dispositions_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analyses: {
+        Row: {
+          config: Json
+          created_at: string
+          file_name: string
+          id: string
+          reporting_currency: string
+          result: Json
+          summary: Json
+          user_id: string
+        }
+        Insert: {
+          config: Json
+          created_at?: string
+          file_name: string
+          id?: string
+          reporting_currency: string
+          result: Json
+          summary: Json
+          user_id?: string
+        }
+        Update: {
+          config?: Json
+          created_at?: string
+          file_name?: string
+          id?: string
+          reporting_currency?: string
+          result?: Json
+          summary?: Json
+          user_id?: string
+        }
+        Relationships: []
+      }
+      analysis_accounts: {
+        Row: {
+          account_id: string
+          analysis_id: string
+          detected_patterns: string[]
+          ring_id: string | null
+          score_breakdown: Json
+          suspicion_score: number
+          user_id: string
+        }
+        Insert: {
+          account_id: string
+          analysis_id: string
+          detected_patterns: string[]
+          ring_id: string | null
+          score_breakdown: Json
+          suspicion_score: number
+          user_id?: string
+        }
+        Update: {
+          account_id?: string
+          analysis_id?: string
+          detected_patterns?: string[]
+          ring_id?: string | null
+          score_breakdown?: Json
+          suspicion_score?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_accounts_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "analyses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analysis_rings: {
+        Row: {
+          analysis_id: string
+          evidence: Json
+          member_accounts: string[]
+          pattern_type: string
+          ring_id: string
+          risk_score: number
+          user_id: string
+        }
+        Insert: {
+          analysis_id: string
+          evidence: Json
+          member_accounts: string[]
+          pattern_type: string
+          ring_id: string
+          risk_score: number
+          user_id?: string
+        }
+        Update: {
+          analysis_id?: string
+          evidence?: Json
+          member_accounts?: string[]
+          pattern_type?: string
+          ring_id?: string
+          risk_score?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_rings_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "analyses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      case_evidence: {
+        Row: {
+          case_id: string
+          created_at: string
+          data: Json | null
+          id: string
+          label: string
+          url: string | null
+          user_id: string
+        }
+        Insert: {
+          case_id: string
+          created_at?: string
+          data?: Json | null
+          id?: string
+          label: string
+          url?: string | null
+          user_id?: string
+        }
+        Update: {
+          case_id?: string
+          created_at?: string
+          data?: Json | null
+          id?: string
+          label?: string
+          url?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_evidence_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      case_notes: {
+        Row: {
+          body: string
+          case_id: string
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          case_id: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Update: {
+          body?: string
+          case_id?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_notes_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cases: {
+        Row: {
+          analysis_id: string | null
+          assignee: string | null
+          created_at: string
+          id: string
+          member_accounts: string[]
+          status: string
+          subject_id: string
+          subject_type: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          analysis_id?: string | null
+          assignee?: string | null
+          created_at?: string
+          id?: string
+          member_accounts: string[]
+          status?: string
+          subject_id: string
+          subject_type: string
+          title: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          analysis_id?: string | null
+          assignee?: string | null
+          created_at?: string
+          id?: string
+          member_accounts?: string[]
+          status?: string
+          subject_id?: string
+          subject_type?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cases_analysis_id_fkey"
+            columns: ["analysis_id"]
+            isOneToOne: false
+            referencedRelation: "analyses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -0,0 +1,142 @@
+import type {
+  AccountDisposition,
+  AnalysisProgress,
+  ColumnMapping,
+  DetectionConfig,
+  DetectionResult,
+  IngestionReport,
+  RegisteredEntity,
+  RingDiff,
+  WatchlistEntry,
+} from './types';
+import { deserializeResult, serializeResult } from './worker-protocol';
+import type { FxRateTable } from './fx-rates';
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from './worker-protocol';
+
+interface ParseRequestOptions {
+  mapping?: ColumnMapping;
+  fxRates?: FxRateTable | null;
+  reportingCurrency?: string;
+}
+
+interface AnalyzeRequestOptions {
+  config?: Partial<DetectionConfig>;
+  feedback?: AccountDisposition[];
+  registry?: RegisteredEntity[];
+  watchlist?: WatchlistEntry[];
+}
+
+interface RequestOptions {
+  onProgress: (p: AnalysisProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Owns one analysis worker for a parse → review → analyze session, which can
+ * be followed by parse → append rounds for further batches.
+ * Aborting a request's signal terminates the worker and rejects with an
+ * AbortError; the session cannot be reused afterwards.
+ */
+export class AnalysisSession {
+  private worker = new Worker(new URL('./analysis-worker.ts', import.meta.url), { type: 'module' });
+  private terminated = false;
+
+  parse(file: File, parseOptions: ParseRequestOptions, options: RequestOptions): Promise<IngestionReport> {
+    return this.request({ type: 'parse', file, ...parseOptions }, options, message =>
+      message.type === 'parsed' ? message.report : undefined
+    );
+  }
+
+  analyze(analysisOptions: AnalyzeRequestOptions, options: RequestOptions): Promise<DetectionResult> {
+    return this.request({ type: 'analyze', ...analysisOptions }, options, message =>
+      message.type === 'result' ? deserializeResult(message.result) : undefined
+    );
+  }
+
+  /** Make a finished result, e.g. a saved analysis, the one the next batch is appended to */
+  restore(result: DetectionResult, options: RequestOptions): Promise<void> {
+    return this.request({ type: 'restore', result: serializeResult(result) }, options, message =>
+      message.type === 'restored' ? null : undefined
+    );
+  }
+
+  /** Analyze the batch parsed last on top of this session's previous analysis */
+  append(
+    analysisOptions: AnalyzeRequestOptions,
+    options: RequestOptions
+  ): Promise<{ result: DetectionResult; diff: RingDiff }> {
+    return this.request({ type: 'analyze', append: true, ...analysisOptions }, options, message =>
+      message.type === 'result' && message.diff ? { result: deserializeResult(message.result), diff: message.diff } : undefined
+    );
+  }
+
+  terminate() {
+    this.terminated = true;
+    this.worker.terminate();
+  }
+
+  private request<T>(
+    request: AnalysisWorkerRequest,
+    { onProgress, signal }: RequestOptions,
+    pick: (message: AnalysisWorkerResponse) => T | undefined
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      if (this.terminated) {
+        reject(new Error('Analysis session has ended'));
+        return;
+      }
+      if (signal?.aborted) {
+        this.terminate();
+        reject(abortError());
+        return;
+      }
+
+      const cleanup = () => {
+        this.worker.onmessage = null;
+        this.worker.onerror = null;
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const onAbort = () => {
+        cleanup();
+        this.terminate();
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', onAbort);
+
+      this.worker.onmessage = (e: MessageEvent<AnalysisWorkerResponse>) => {
+        const message = e.data;
+        if (message.type === 'progress') {
+          onProgress(message.progress);
+          return;
+        }
+        if (message.type === 'error') {
+          cleanup();
+          reject(new Error(message.message));
+          return;
+        }
+        const value = pick(message);
+        if (value !== undefined) {
+          cleanup();
+          resolve(value);
+        }
+      };
+
+      this.worker.onerror = (e) => {
+        cleanup();
+        this.terminate();
+        reject(new Error(e.message || 'Analysis worker crashed'));
+      };
+
+      this.worker.postMessage(request);
+    });
+  }
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+function abortError(): DOMException {
+  return new DOMException('Analysis cancelled', 'AbortError');
+}
@@ -0,0 +1,110 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { deserializeResult, serializeResult } from './worker-protocol';
+import type { SerializedDetectionResult } from './worker-protocol';
+import type { DetectionResult } from './types';
+
+// Persistence for finished analyses. The client is passed in so this module
+// stays free of browser globals and can run against any Supabase instance.
+
+type Client = SupabaseClient<Database>;
+type Tables = Database['public']['Tables'];
+
+export interface AnalysisListItem {
+  id: string;
+  created_at: string;
+  file_name: string;
+  reporting_currency: string;
+  summary: DetectionResult['summary'];
+}
+
+export interface SavedAnalysis extends AnalysisListItem {
+  result: DetectionResult;
+}
+
+export function toAnalysisRow(fileName: string, result: DetectionResult): Tables['analyses']['Insert'] {
+  return {
+    file_name: fileName,
+    reporting_currency: result.reporting_currency,
+    config: result.config as unknown as Json,
+    summary: result.summary as unknown as Json,
+    result: serializeResult(result) as unknown as Json,
+  };
+}
+
+export function toAccountRows(analysisId: string, result: DetectionResult): Tables['analysis_accounts']['Insert'][] {
+  return result.suspicious_accounts.map(a => ({
+    analysis_id: analysisId,
+    account_id: a.account_id,
+    suspicion_score: a.suspicion_score,
+    detected_patterns: a.detected_patterns,
+    ring_id: a.ring_id,
+    score_breakdown: a.score_breakdown as unknown as Json,
+  }));
+}
+
+export function toRingRows(analysisId: string, result: DetectionResult): Tables['analysis_rings']['Insert'][] {
+  return result.fraud_rings.map(r => ({
+    analysis_id: analysisId,
+    ring_id: r.ring_id,
+    pattern_type: r.pattern_type,
+    member_accounts: r.member_accounts,
+    risk_score: r.risk_score,
+    evidence: r.evidence as unknown as Json,
+  }));
+}
+
+/**
+ * Save a result for the signed-in user and return the new analysis id.
+ * PostgREST has no multi-table transactions, so a failed child insert
+ * deletes the parent row (cascading to whatever was written).
+ */
+export async function saveAnalysis(client: Client, fileName: string, result: DetectionResult): Promise<string> {
+  const { data, error } = await client
+    .from('analyses')
+    .insert(toAnalysisRow(fileName, result))
+    .select('id')
+    .single();
+  if (error) throw new Error(`Failed to save analysis: ${error.message}`);
+
+  const id = data.id;
+  const children = await Promise.all([
+    result.suspicious_accounts.length > 0 ? client.from('analysis_accounts').insert(toAccountRows(id, result)) : null,
+    result.fraud_rings.length > 0 ? client.from('analysis_rings').insert(toRingRows(id, result)) : null,
+  ]);
+  const childError = children.find(c => c?.error)?.error;
+  if (childError) {
+    await client.from('analyses').delete().eq('id', id);
+    throw new Error(`Failed to save analysis: ${childError.message}`);
+  }
+  return id;
+}
+
+/** The signed-in user's analyses, newest first. Row-level security scopes the query. */
+export async function listAnalyses(client: Client): Promise<AnalysisListItem[]> {
+  const { data, error } = await client
+    .from('analyses')
+    .select('id, created_at, file_name, reporting_currency, summary')
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(`Failed to load analysis history: ${error.message}`);
+  return data.map(row => ({ ...row, summary: row.summary as unknown as AnalysisListItem['summary'] }));
+}
+
+export async function loadAnalysis(client: Client, id: string): Promise<SavedAnalysis> {
+  const { data, error } = await client.from('analyses').select('*').eq('id', id).single();
+  if (error) throw new Error(`Failed to load analysis: ${error.message}`);
+  return {
+    id: data.id,
+    created_at: data.created_at,
+    file_name: data.file_name,
+    reporting_currency: data.reporting_currency,
+    summary: data.summary as unknown as AnalysisListItem['summary'],
+    // Analyses saved before exclusions were reported have none
+    result: { exclusions: [], ...deserializeResult(data.result as unknown as SerializedDetectionResult) },
+  };
+}
+
+export async function deleteAnalysis(client: Client, id: string): Promise<void> {
+  const { error } = await client.from('analyses').delete().eq('id', id);
+  if (error) throw new Error(`Failed to delete analysis: ${error.message}`);
+}
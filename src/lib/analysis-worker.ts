@@ -0,0 +1,56 @@
+import { parseCSV } from './csv-parser';
+import { analyzeBatch, restoreSnapshot } from './analyzer';
+import type { AnalysisSnapshot } from './analyzer';
+import { deserializeResult, serializeResult } from './worker-protocol';
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from './worker-protocol';
+import type { AnalysisProgress, ParsedCSV } from './types';
+
+// Runs parse + analyze off the main thread. Cancellation is handled by the
+// client terminating the worker, so there is no abort message here.
+
+let parsed: ParsedCSV | null = null;
+let snapshot: AnalysisSnapshot | null = null;
+
+function post(message: AnalysisWorkerResponse) {
+  self.postMessage(message);
+}
+
+self.onmessage = async (e: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = e.data;
+  const onProgress = (progress: AnalysisProgress) => post({ type: 'progress', progress });
+
+  try {
+    switch (request.type) {
+      case 'parse': {
+        const { file, mapping, fxRates, reportingCurrency } = request;
+        parsed = await parseCSV(file, { mapping, fxRates, reportingCurrency, onProgress });
+        post({ type: 'parsed', report: parsed.report });
+        break;
+      }
+      case 'restore': {
+        snapshot = restoreSnapshot(deserializeResult(request.result));
+        post({ type: 'restored' });
+        break;
+      }
+      case 'analyze': {
+        if (!parsed) throw new Error('No parsed transactions to analyze');
+        if (request.append && !snapshot) throw new Error('No previous analysis to append to');
+        const previous = request.append ? snapshot : null;
+        // The graph is extended in place, so a failed run cannot be appended to
+        snapshot = null;
+        const batch = await analyzeBatch(previous, parsed.transactions, onProgress, {
+          config: request.config,
+          feedback: request.feedback,
+          registry: request.registry,
+          watchlist: request.watchlist,
+          reportingCurrency: parsed.report.reporting_currency,
+        });
+        snapshot = batch.snapshot;
+        post({ type: 'result', result: serializeResult(batch.result), diff: batch.diff });
+        break;
+      }
+    }
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : 'Analysis failed' });
+  }
+};
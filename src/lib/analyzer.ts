@@ -1,41 +1,187 @@
-import type { Transaction, DetectionResult, AnalysisProgress } from './types';
+import type {
+  Transaction,
+  DetectionResult,
+  AnalysisProgress,
+  DetectionConfig,
+  AccountDisposition,
+  FraudRing,
+  RegisteredEntity,
+  RingDiff,
+  WatchlistEntry,
+} from './types';
 import { TransactionGraph } from './graph-engine';
-import { detectCycles, detectSmurfing, detectShellNetworks, resetRingCounter } from './detection-engine';
+import { detectWatchlistProximity, flagRing, listExclusions } from './detection-engine';
+import { DETECTORS, flaggedMembers } from './detector-registry';
 import { computeSuspicionScores, computeRingRiskScores } from './scoring-engine';
 import { mergeOverlappingRings } from './ring-merger';
+import { resolveDetectionConfig } from './detection-config';
+import { DEFAULT_REPORTING_CURRENCY } from './fx-rates';
+import { createFeedbackIndex } from './feedback';
+import { diffRings } from './ring-diff';
+
+export interface AnalysisOptions {
+  config?: Partial<DetectionConfig>;
+  /** Currency that Transaction.amount is expressed in */
+  reportingCurrency?: string;
+  /** Analyst dispositions from earlier runs */
+  feedback?: AccountDisposition[];
+  /** Reference time for feedback expiry; defaults to now */
+  asOf?: Date;
+  /** Known legitimate entities to exclude or down-weight */
+  registry?: RegisteredEntity[];
+  /** Known bad accounts; counterparties within watchlist_max_hops are flagged */
+  watchlist?: WatchlistEntry[];
+}
+
+/**
+ * Everything a later batch needs to be analyzed incrementally. The graph is
+ * extended in place by the next batch, so a snapshot can only be used once.
+ */
+export interface AnalysisSnapshot {
+  graph: TransactionGraph;
+  transactionIds: Set<string>;
+  /** Detector output before merging */
+  rings: FraudRing[];
+  /** Merged rings as reported, for diffing against the next run */
+  fraudRings: FraudRing[];
+  /** Config and registry the rings were detected with; null when restored from a result */
+  settingsKey: string | null;
+}
+
+export interface BatchAnalysis {
+  result: DetectionResult;
+  snapshot: AnalysisSnapshot;
+  /** Ring changes against the previous snapshot, or null for a first run */
+  diff: RingDiff | null;
+}
+
+/**
+ * Rebuild a snapshot from a finished result, e.g. a saved analysis, so a batch
+ * can be appended to it. Detector output before merging is not part of the
+ * result, so the next batch re-analyzes every account.
+ */
+export function restoreSnapshot(result: DetectionResult): AnalysisSnapshot {
+  // Every transaction sits on exactly one edge
+  const transactions = result.graph.edges.flatMap(edge => edge.transactions);
+  return {
+    graph: new TransactionGraph(transactions),
+    transactionIds: new Set(transactions.map(tx => tx.transaction_id)),
+    rings: [],
+    fraudRings: result.fraud_rings,
+    settingsKey: null,
+  };
+}
 
 export async function analyzeTransactions(
   transactions: Transaction[],
-  onProgress: (p: AnalysisProgress) => void
+  onProgress: (p: AnalysisProgress) => void,
+  options: AnalysisOptions = {}
 ): Promise<DetectionResult> {
+  return (await analyzeBatch(null, transactions, onProgress, options)).result;
+}
+
+/**
+ * Analyze a batch on top of a previous run. Only accounts the batch touched
+ * (and the neighborhood each detector needs, e.g. within the cycle and
+ * shell-chain hop limits) are re-run through the registered ring detectors;
+ * rings with no touched member carry over. Detectors marked fullRerun (e.g.
+ * population baselines) always re-check every account.
+ * Scores, watchlist proximity and ring merging are recomputed over the whole
+ * graph. Transactions already in the snapshot are skipped. Without a previous
+ * snapshot, with a restored one, or when the config or registry changed,
+ * everything is re-analyzed.
+ */
+export async function analyzeBatch(
+  previous: AnalysisSnapshot | null,
+  transactions: Transaction[],
+  onProgress: (p: AnalysisProgress) => void,
+  options: AnalysisOptions = {}
+): Promise<BatchAnalysis> {
   const startTime = performance.now();
-  resetRingCounter();
+  const config = resolveDetectionConfig(options.config);
+  const settingsKey = JSON.stringify([config, options.registry ?? []]);
 
-  onProgress({ stage: 'Building transaction graph...', percent: 10 });
+  onProgress({ stage: previous ? 'Appending transactions to graph...' : 'Building transaction graph...', percent: 10 });
   await tick();
 
-  const graph = new TransactionGraph(transactions);
+  const warnings: string[] = [];
+  let graph: TransactionGraph;
+  let transactionIds: Set<string>;
+  let touched: Set<string> | null = null;
+  let keptRings: FraudRing[] = [];
 
-  onProgress({ stage: 'Detecting circular fund routing...', percent: 25 });
-  await tick();
+  if (previous) {
+    ({ graph, transactionIds } = previous);
+    const batch = transactions.filter(tx => !transactionIds.has(tx.transaction_id));
+    if (batch.length < transactions.length) {
+      warnings.push(`${transactions.length - batch.length} transactions were already analyzed and were skipped`);
+    }
+    for (const tx of batch) transactionIds.add(tx.transaction_id);
+    touched = graph.addTransactions(batch);
+
+    if (previous.settingsKey === settingsKey) {
+      keptRings = previous.rings.filter(ring => !ring.member_accounts.some(id => touched!.has(id)));
+    } else {
+      if (previous.settingsKey !== null) {
+        warnings.push('Detection settings changed since the previous batch; every account was re-analyzed');
+      }
+      touched = null;
+    }
+    for (const node of graph.getNodeArray()) {
+      node.isSuspicious = false;
+      node.detectedPatterns = [];
+      node.ringIds = [];
+      node.entity = null;
+      node.watchlistHit = null;
+    }
+  } else {
+    graph = new TransactionGraph(transactions);
+    transactionIds = new Set(transactions.map(tx => tx.transaction_id));
+  }
+
+  for (const entity of options.registry ?? []) {
+    const node = graph.nodes.get(entity.account_id);
+    if (node) node.entity = entity;
+  }
 
-  const cycleRings = detectCycles(graph);
+  const detectedRings: FraudRing[] = [];
+  for (const [i, detector] of DETECTORS.entries()) {
+    onProgress({ stage: detector.stage, percent: 25 + Math.round((40 * i) / DETECTORS.length) });
+    await tick();
 
-  onProgress({ stage: 'Detecting smurfing patterns...', percent: 50 });
-  await tick();
+    const rings = detector.run(graph, config, { warnings, touched: detector.fullRerun ? null : touched });
+    detectedRings.push(...rings);
 
-  const smurfRings = detectSmurfing(graph);
+    if (detector.fullRerun) {
+      const patterns = new Set(detector.patterns.map(p => p.pattern_type));
+      keptRings = keptRings.filter(ring => !patterns.has(ring.pattern_type));
+    }
 
-  onProgress({ stage: 'Detecting shell networks...', percent: 65 });
-  await tick();
+    // Some detectors drop rings contained in a larger one of their own; apply
+    // that across the carried-over and new rings too
+    if (detector.dropsContainedRings) {
+      const patterns = new Set(detector.patterns.map(p => p.pattern_type));
+      const newSets = rings.map(ring => new Set(ring.member_accounts));
+      keptRings = keptRings.filter(ring =>
+        !patterns.has(ring.pattern_type) ||
+        !newSets.some(set => set.size > ring.member_accounts.length && ring.member_accounts.every(id => set.has(id)))
+      );
+    }
+  }
+  for (const ring of keptRings) flagRing(graph, ring, flaggedMembers(ring));
 
-  const shellRings = detectShellNetworks(graph);
+  if (options.watchlist?.length) {
+    onProgress({ stage: 'Matching watchlist...', percent: 70 });
+    await tick();
+
+    detectWatchlistProximity(graph, options.watchlist, config);
+  }
 
   onProgress({ stage: 'Merging overlapping rings...', percent: 75 });
   await tick();
 
   // Merge rings with ≥70% overlap
-  const allRingsRaw = [...cycleRings, ...smurfRings, ...shellRings];
+  const allRingsRaw = [...keptRings, ...detectedRings];
   const mergedRings = mergeOverlappingRings(allRingsRaw);
 
   // Re-assign ring IDs to nodes after merging
@@ -52,7 +198,8 @@ export async function analyzeTransactions(
   onProgress({ stage: 'Computing suspicion scores...', percent: 85 });
   await tick();
 
-  computeSuspicionScores(graph);
+  const feedback = options.feedback?.length ? createFeedbackIndex(options.feedback, config, options.asOf) : null;
+  computeSuspicionScores(graph, config, feedback, mergedRings);
 
   // Recalculate ring risk as average of member scores
   computeRingRiskScores(graph, mergedRings);
@@ -60,12 +207,19 @@ export async function analyzeTransactions(
   onProgress({ stage: 'Generating results...', percent: 95 });
   await tick();
 
+  let suppressedByFeedback = 0;
   const suspiciousAccounts = graph.getNodeArray()
     .filter(n => n.isSuspicious)
+    .filter(n => {
+      if (!feedback?.clearanceFor(n.id, [...new Set(n.detectedPatterns)])) return true;
+      suppressedByFeedback++;
+      return !config.feedback_suppress;
+    })
     .sort((a, b) => b.suspicionScore - a.suspicionScore)
     .map(n => ({
       account_id: n.id,
       suspicion_score: n.suspicionScore,
+      score_breakdown: n.scoreBreakdown,
       detected_patterns: [...new Set(n.detectedPatterns)],
       ring_id: n.ringIds[0] || null,
     }));
@@ -74,13 +228,18 @@ export async function analyzeTransactions(
 
   onProgress({ stage: 'Analysis complete', percent: 100 });
 
-  return {
+  const result: DetectionResult = {
     suspicious_accounts: suspiciousAccounts,
     fraud_rings: mergedRings,
+    config,
+    warnings,
+    exclusions: listExclusions(graph, config),
+    reporting_currency: options.reportingCurrency ?? DEFAULT_REPORTING_CURRENCY,
     summary: {
       total_accounts_analyzed: graph.nodes.size,
       suspicious_accounts_flagged: suspiciousAccounts.length,
       fraud_rings_detected: mergedRings.length,
+      suppressed_by_feedback: suppressedByFeedback,
       processing_time_seconds: Math.round(elapsed * 10) / 10,
     },
     graph: {
@@ -88,6 +247,12 @@ export async function analyzeTransactions(
       edges: graph.getEdgeArray(),
     },
   };
+
+  return {
+    result,
+    snapshot: { graph, transactionIds, rings: allRingsRaw, fraudRings: mergedRings, settingsKey },
+    diff: previous ? diffRings(previous.fraudRings, mergedRings) : null,
+  };
 }
 
 function tick(): Promise<void> {
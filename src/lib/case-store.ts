@@ -0,0 +1,185 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { parseDispositions } from './feedback';
+import type { AccountDisposition, Case, CaseEvidence, CaseNote, CaseStatus, FraudRing, SuspiciousAccount } from './types';
+
+// Case persistence and the lookups the dashboard needs to badge accounts and
+// rings. Like analysis-store, the Supabase client is passed in.
+
+type Client = SupabaseClient<Database>;
+
+export const CASE_STATUSES: { value: CaseStatus; label: string; open: boolean }[] = [
+  { value: 'new', label: 'New', open: true },
+  { value: 'investigating', label: 'Investigating', open: true },
+  { value: 'escalated', label: 'Escalated', open: true },
+  { value: 'closed_false_positive', label: 'Closed – False Positive', open: false },
+  { value: 'closed_sar_filed', label: 'Closed – SAR Filed', open: false },
+];
+
+export function caseStatusLabel(status: CaseStatus): string {
+  return CASE_STATUSES.find(s => s.value === status)?.label ?? status;
+}
+
+const DISPOSITION_BY_STATUS: Partial<Record<CaseStatus, AccountDisposition['disposition']>> = {
+  closed_false_positive: 'false_positive',
+  closed_sar_filed: 'confirmed',
+};
+
+/**
+ * Dispositions implied by closing a case: one per member account and pattern
+ * it is currently flagged for (or a blanket one if it is not flagged in the
+ * given result). Empty for statuses that are not a decision.
+ */
+export function dispositionsForCase(
+  caseRecord: Case,
+  status: CaseStatus,
+  accounts: SuspiciousAccount[],
+  decidedAt: Date = new Date()
+): AccountDisposition[] {
+  const disposition = DISPOSITION_BY_STATUS[status];
+  if (!disposition) return [];
+
+  const byId = new Map(accounts.map(a => [a.account_id, a]));
+  return caseRecord.member_accounts.flatMap(accountId => {
+    const patterns = byId.get(accountId)?.detected_patterns ?? [];
+    return (patterns.length > 0 ? patterns : [null]).map(pattern_type => ({
+      account_id: accountId,
+      pattern_type,
+      disposition,
+      decided_at: decidedAt.toISOString(),
+    }));
+  });
+}
+
+export interface NewCaseEvidence {
+  label: string;
+  url?: string | null;
+  data?: unknown;
+}
+
+export interface NewCase {
+  subject_type: Case['subject_type'];
+  subject_id: string;
+  member_accounts: string[];
+  title: string;
+  analysis_id?: string | null;
+  assignee?: string | null;
+  evidence?: NewCaseEvidence[];
+}
+
+/** Case for a flagged account, seeded with its score breakdown. */
+export function caseFromAccount(account: SuspiciousAccount, analysisId: string | null = null): NewCase {
+  return {
+    subject_type: 'account',
+    subject_id: account.account_id,
+    member_accounts: [account.account_id],
+    title: `Account ${account.account_id} (score ${account.suspicion_score})`,
+    analysis_id: analysisId,
+    evidence: [{ label: `Score breakdown: ${account.detected_patterns.join(', ')}`, data: account.score_breakdown }],
+  };
+}
+
+/** Case for a fraud ring, seeded with one evidence item per detector hit. */
+export function caseFromRing(ring: FraudRing, analysisId: string | null = null): NewCase {
+  return {
+    subject_type: 'ring',
+    subject_id: ring.ring_id,
+    member_accounts: [...ring.member_accounts].sort(),
+    title: `${ring.ring_id}: ${ring.pattern_type} (${ring.member_accounts.length} accounts)`,
+    analysis_id: analysisId,
+    evidence: ring.evidence.map(e => ({
+      label: `${e.pattern_type}: ${e.transaction_ids.length} transactions`,
+      data: e,
+    })),
+  };
+}
+
+export interface CaseIndex {
+  forAccount(accountId: string): Case | undefined;
+  forRing(ring: FraudRing): Case | undefined;
+}
+
+/** Most recently updated case per subject */
+export function indexCases(cases: Case[]): CaseIndex {
+  const sorted = [...cases].sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+  const accounts = new Map<string, Case>();
+  const rings = new Map<string, Case>();
+  for (const c of sorted) {
+    const map = c.subject_type === 'account' ? accounts : rings;
+    if (!map.has(c.subject_id)) map.set(c.subject_id, c);
+  }
+  return {
+    forAccount: accountId => accounts.get(accountId),
+    forRing: ring => rings.get(ring.ring_id),
+  };
+}
+
+export async function listCases(client: Client): Promise<Case[]> {
+  const { data, error } = await client.from('cases').select('*').order('updated_at', { ascending: false });
+  if (error) throw new Error(`Failed to load cases: ${error.message}`);
+  return data as Case[];
+}
+
+export async function openCase(client: Client, newCase: NewCase): Promise<Case> {
+  const { evidence = [], ...fields } = newCase;
+  const { data, error } = await client.from('cases').insert(fields).select('*').single();
+  if (error) throw new Error(`Failed to open case: ${error.message}`);
+
+  const created = data as Case;
+  for (const item of evidence) await addCaseEvidence(client, created.id, item);
+  return created;
+}
+
+export async function updateCase(
+  client: Client,
+  id: string,
+  changes: Partial<Pick<Case, 'status' | 'assignee' | 'title'>>
+): Promise<Case> {
+  const { data, error } = await client.from('cases').update(changes).eq('id', id).select('*').single();
+  if (error) throw new Error(`Failed to update case: ${error.message}`);
+  return data as Case;
+}
+
+export async function loadCaseActivity(client: Client, caseId: string): Promise<{ notes: CaseNote[]; evidence: CaseEvidence[] }> {
+  const [notes, evidence] = await Promise.all([
+    client.from('case_notes').select('id, case_id, created_at, body').eq('case_id', caseId).order('created_at', { ascending: true }),
+    client.from('case_evidence').select('id, case_id, created_at, label, url, data').eq('case_id', caseId).order('created_at', { ascending: true }),
+  ]);
+  const error = notes.error ?? evidence.error;
+  if (error) throw new Error(`Failed to load case activity: ${error.message}`);
+  return { notes: notes.data as CaseNote[], evidence: evidence.data as CaseEvidence[] };
+}
+
+export async function addCaseNote(client: Client, caseId: string, body: string): Promise<CaseNote> {
+  const { data, error } = await client
+    .from('case_notes')
+    .insert({ case_id: caseId, body })
+    .select('id, case_id, created_at, body')
+    .single();
+  if (error) throw new Error(`Failed to add note: ${error.message}`);
+  return data as CaseNote;
+}
+
+export async function addCaseEvidence(client: Client, caseId: string, item: NewCaseEvidence): Promise<CaseEvidence> {
+  const { data, error } = await client
+    .from('case_evidence')
+    .insert({ case_id: caseId, label: item.label, url: item.url ?? null, data: (item.data ?? null) as Json })
+    .select('id, case_id, created_at, label, url, data')
+    .single();
+  if (error) throw new Error(`Failed to attach evidence: ${error.message}`);
+  return data as CaseEvidence;
+}
+
+export async function recordDispositions(client: Client, caseId: string, dispositions: AccountDisposition[]): Promise<void> {
+  if (dispositions.length === 0) return;
+  const { error } = await client.from('account_dispositions').insert(dispositions.map(d => ({ ...d, case_id: caseId })));
+  if (error) throw new Error(`Failed to record disposition: ${error.message}`);
+}
+
+export async function listDispositions(client: Client): Promise<AccountDisposition[]> {
+  const { data, error } = await client
+    .from('account_dispositions')
+    .select('account_id, pattern_type, disposition, decided_at');
+  if (error) throw new Error(`Failed to load dispositions: ${error.message}`);
+  return parseDispositions(data);
+}
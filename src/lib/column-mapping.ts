@@ -0,0 +1,135 @@
+import Papa from 'papaparse';
+import { REQUIRED_COLUMNS } from './csv-parser';
+import type { ColumnMapping, RequiredColumn } from './types';
+
+/** Header names seen in bank exports, by the column they map to. */
+const HEADER_SYNONYMS: Record<RequiredColumn, string[]> = {
+  transaction_id: ['transaction_id', 'txn_id', 'txn_ref', 'tx_id', 'trans_id', 'transaction_ref', 'transaction_reference', 'reference', 'ref', 'id'],
+  sender_id: ['sender_id', 'sender', 'from', 'from_account', 'debtor_account', 'debtor', 'payer', 'payer_account', 'source_account', 'originator', 'originator_account', 'debit_account'],
+  receiver_id: ['receiver_id', 'receiver', 'to', 'to_account', 'creditor_account', 'creditor', 'payee', 'payee_account', 'beneficiary', 'beneficiary_account', 'destination_account', 'credit_account'],
+  amount: ['amount', 'value', 'amt', 'transaction_amount', 'txn_amount', 'sum'],
+  timestamp: ['timestamp', 'datetime', 'date', 'value_date', 'booking_date', 'transaction_date', 'txn_date', 'created_at', 'time'],
+};
+
+const CURRENCY_SYNONYMS = ['currency', 'ccy', 'currency_code', 'cur', 'iso_currency', 'transaction_currency'];
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/** True when the file already uses the canonical column names. */
+export function isStandardHeader(headers: string[]): boolean {
+  return REQUIRED_COLUMNS.every(col => headers.includes(col));
+}
+
+/**
+ * Suggest a source header for each required column from the synonym table.
+ * Earlier synonyms win, and each source header is used at most once.
+ */
+export function suggestMapping(headers: string[]): Partial<ColumnMapping> {
+  const normalized = new Map<string, string>();
+  for (const h of headers) {
+    const key = normalizeHeader(h);
+    if (!normalized.has(key)) normalized.set(key, h);
+  }
+
+  const used = new Set<string>();
+  const mapping: Partial<ColumnMapping> = {};
+  for (const col of REQUIRED_COLUMNS as RequiredColumn[]) {
+    for (const synonym of HEADER_SYNONYMS[col]) {
+      const header = normalized.get(synonym);
+      if (header && !used.has(header)) {
+        mapping[col] = header;
+        used.add(header);
+        break;
+      }
+    }
+  }
+  for (const synonym of CURRENCY_SYNONYMS) {
+    const header = normalized.get(synonym);
+    if (header && !used.has(header)) {
+      mapping.currency = header;
+      break;
+    }
+  }
+  return mapping;
+}
+
+/** Problems that block a mapping from being used; empty when it is complete. */
+export function validateMapping(mapping: Partial<ColumnMapping>, headers: string[]): string[] {
+  const errors: string[] = [];
+  const seen = new Map<string, string>();
+  for (const col of REQUIRED_COLUMNS as RequiredColumn[]) {
+    const source = mapping[col];
+    if (!source) {
+      errors.push(`${col} is not mapped`);
+      continue;
+    }
+    if (!headers.includes(source)) errors.push(`${col}: column "${source}" not found in file`);
+    const other = seen.get(source);
+    if (other) errors.push(`"${source}" is mapped to both ${other} and ${col}`);
+    seen.set(source, col);
+  }
+  if (mapping.currency) {
+    if (!headers.includes(mapping.currency)) errors.push(`currency: column "${mapping.currency}" not found in file`);
+    const other = seen.get(mapping.currency);
+    if (other) errors.push(`"${mapping.currency}" is mapped to both ${other} and currency`);
+  }
+  return errors;
+}
+
+export interface CSVPreview {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+/** Read the header and first few rows without parsing the whole file. */
+export function previewCSV(file: File, rowCount = 5): Promise<CSVPreview> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      preview: rowCount,
+      complete: (results) => resolve({ headers: results.meta.fields ?? [], rows: results.data }),
+      error: (err) => reject(new Error(`CSV parsing failed: ${err.message}`)),
+    });
+  });
+}
+
+// ─── Saved mapping profiles (localStorage) ───
+
+export interface MappingProfile {
+  name: string;
+  mapping: ColumnMapping;
+}
+
+const PROFILES_KEY = 'mulermoney.columnMappingProfiles';
+
+export function loadMappingProfiles(): MappingProfile[] {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveMappingProfile(profile: MappingProfile): MappingProfile[] {
+  const profiles = loadMappingProfiles().filter(p => p.name !== profile.name);
+  profiles.push(profile);
+  profiles.sort((a, b) => a.name.localeCompare(b.name));
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  return profiles;
+}
+
+export function deleteMappingProfile(name: string): MappingProfile[] {
+  const profiles = loadMappingProfiles().filter(p => p.name !== name);
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  return profiles;
+}
+
+/** First saved profile whose source columns all exist in this file. */
+export function findMatchingProfile(profiles: MappingProfile[], headers: string[]): MappingProfile | undefined {
+  return profiles.find(p => validateMapping(p.mapping, headers).length === 0);
+}
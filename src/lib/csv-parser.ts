@@ -1,15 +1,63 @@
 import Papa from 'papaparse';
-import type { Transaction } from './types';
+import { DEFAULT_REPORTING_CURRENCY, createFxConverter, isCurrencyCode, normalizeCurrency } from './fx-rates';
+import type { FxRateTable } from './fx-rates';
+import type { AnalysisProgress, ColumnMapping, IngestionReport, ParsedCSV, RejectedRow, RequiredColumn, Transaction } from './types';
+
+const CHUNK_SIZE = 1024 * 1024;
+
+interface IngestOptions {
+  /** Source header per column; defaults to the canonical names */
+  mapping?: ColumnMapping;
+  /** Needed when the optional currency column holds anything but the reporting currency */
+  fxRates?: FxRateTable | null;
+  reportingCurrency?: string;
+}
+
+/** A browser File, or a Node readable stream (e.g. fs.createReadStream) for the CLI */
+export type CSVSource = File | NodeJS.ReadableStream;
+
+interface ParseOptions extends IngestOptions {
+  onProgress?: (p: AnalysisProgress) => void;
+  /** Byte length of a stream source, used for progress; Files report their own */
+  size?: number;
+}
+
+/**
+ * Stream a CSV file in chunks, validating rows as they arrive.
+ * Structural problems (empty file, missing columns) reject; row-level problems
+ * are collected in the IngestionReport instead.
+ */
+export function parseCSV(source: CSVSource, { onProgress, size, ...ingestOptions }: ParseOptions = {}): Promise<ParsedCSV> {
+  const totalBytes = typeof File !== 'undefined' && source instanceof File ? source.size : size ?? 0;
 
-export function parseCSV(file: File): Promise<Transaction[]> {
   return new Promise((resolve, reject) => {
-    Papa.parse(file, {
+    const ingestor = createIngestor(ingestOptions);
+    let failed = false;
+
+    Papa.parse<Record<string, string>>(source, {
       header: true,
-      skipEmptyLines: true,
-      complete: (results) => {
+      // The ingestor skips blank lines itself so it can count them
+      skipEmptyLines: false,
+      chunkSize: CHUNK_SIZE,
+      chunk: (results, parser) => {
         try {
-          const transactions = validateAndParse(results.data as Record<string, string>[]);
-          resolve(transactions);
+          if (!ingestor.hasHeader()) ingestor.setHeader(results.meta.fields ?? []);
+          ingestor.addRows(results.data);
+        } catch (e) {
+          failed = true;
+          parser.abort();
+          reject(e);
+          return;
+        }
+        if (onProgress && totalBytes > 0) {
+          const percent = Math.min(100, Math.round((results.meta.cursor / totalBytes) * 100));
+          onProgress({ stage: `Parsing CSV file... ${ingestor.rowsRead()} rows`, percent });
+        }
+      },
+      complete: () => {
+        if (failed) return;
+        try {
+          resolve(ingestor.finish());
         } catch (e) {
           reject(e);
         }
@@ -19,65 +67,154 @@ export function parseCSV(file: File): Promise<Transaction[]> {
   });
 }
 
-const REQUIRED_COLUMNS = ['transaction_id', 'sender_id', 'receiver_id', 'amount', 'timestamp'];
-
-function validateAndParse(rows: Record<string, string>[]): Transaction[] {
-  if (rows.length === 0) throw new Error('CSV file is empty');
-
-  const headers = Object.keys(rows[0]);
-  const missing = REQUIRED_COLUMNS.filter(col => !headers.includes(col));
-  if (missing.length > 0) {
-    throw new Error(`Missing required columns: ${missing.join(', ')}. Required: ${REQUIRED_COLUMNS.join(', ')}`);
-  }
+export const REQUIRED_COLUMNS: RequiredColumn[] = ['transaction_id', 'sender_id', 'receiver_id', 'amount', 'timestamp'];
+export const CURRENCY_COLUMN = 'currency';
 
+/**
+ * Incremental row validator shared by every ingestion path.
+ * Feed it the header once, then rows in file order, blank lines included so
+ * reported line numbers match the file.
+ */
+export function createIngestor({ mapping, fxRates = null, reportingCurrency = DEFAULT_REPORTING_CURRENCY }: IngestOptions = {}) {
+  // Rejections name the source column so they can be fixed in the original file
+  const source = (col: RequiredColumn) => mapping?.[col] ?? col;
+  const convert = createFxConverter(fxRates, reportingCurrency);
+  const currencies: Record<string, number> = {};
+  let currencyColumn: string | null = null;
   const transactions: Transaction[] = [];
-  const errors: string[] = [];
+  const rejected: RejectedRow[] = [];
+  const firstSeenLine = new Map<string, number>();
+  const duplicates = new Set<string>();
+  const selfTransfers: string[] = [];
+  let header: string[] | null = null;
+  let rowsRead = 0;
+  // Line the next row starts on; quoted fields can span several lines
+  let nextLine = 1;
 
-  for (let i = 0; i < rows.length; i++) {
-    const row = rows[i];
-    const lineNum = i + 2; // +2 for 1-indexed + header row
-
-    if (!row.transaction_id?.trim()) {
-      errors.push(`Row ${lineNum}: missing transaction_id`);
-      continue;
-    }
-    if (!row.sender_id?.trim()) {
-      errors.push(`Row ${lineNum}: missing sender_id`);
-      continue;
+  const setHeader = (fields: string[]) => {
+    const missing = REQUIRED_COLUMNS.filter(col => !fields.includes(source(col)));
+    if (missing.length > 0) {
+      const names = missing.map(col => (source(col) === col ? col : `${source(col)} (→ ${col})`));
+      throw new Error(`Missing required columns: ${names.join(', ')}. Required: ${REQUIRED_COLUMNS.join(', ')}`);
     }
-    if (!row.receiver_id?.trim()) {
-      errors.push(`Row ${lineNum}: missing receiver_id`);
-      continue;
+    if (mapping?.currency) {
+      if (!fields.includes(mapping.currency)) throw new Error(`Currency column "${mapping.currency}" not found`);
+      currencyColumn = mapping.currency;
+    } else if (fields.includes(CURRENCY_COLUMN)) {
+      currencyColumn = CURRENCY_COLUMN;
     }
+    header = fields;
+    nextLine = 2 + lineBreaks(fields);
+  };
 
-    const amount = parseFloat(row.amount);
-    if (isNaN(amount) || amount <= 0) {
-      errors.push(`Row ${lineNum}: invalid amount "${row.amount}"`);
-      continue;
-    }
+  const addRow = (row: Record<string, string>, line: number) => {
+    rowsRead++;
+
+    const reject = (column: RequiredColumn | 'currency', reason: string) =>
+      rejected.push({ line, column: column === 'currency' ? currencyColumn : source(column), reason, row });
+    const value = (col: RequiredColumn) => row[source(col)];
+
+    const transactionId = value('transaction_id')?.trim();
+    const senderId = value('sender_id')?.trim();
+    const receiverId = value('receiver_id')?.trim();
+
+    if (!transactionId) return reject('transaction_id', 'missing transaction_id');
+    if (!senderId) return reject('sender_id', 'missing sender_id');
+    if (!receiverId) return reject('receiver_id', 'missing receiver_id');
+
+    const rawAmount = value('amount');
+    const amount = parseFloat(rawAmount);
+    if (isNaN(amount) || amount <= 0) return reject('amount', `invalid amount "${rawAmount ?? ''}"`);
+
+    const rawTimestamp = value('timestamp');
+    const timestamp = new Date(rawTimestamp);
+    if (isNaN(timestamp.getTime())) return reject('timestamp', `invalid timestamp "${rawTimestamp ?? ''}"`);
 
-    const timestamp = new Date(row.timestamp);
-    if (isNaN(timestamp.getTime())) {
-      errors.push(`Row ${lineNum}: invalid timestamp "${row.timestamp}"`);
-      continue;
+    // Rows without a currency column (or with a blank cell) are in the reporting currency
+    const rawCurrency = currencyColumn ? row[currencyColumn]?.trim() : '';
+    const currency = rawCurrency ? normalizeCurrency(rawCurrency) : reportingCurrency;
+    if (!isCurrencyCode(currency)) return reject('currency', `invalid currency "${rawCurrency}"`);
+    const normalized = convert(amount, currency, timestamp);
+    if (normalized === null) return reject('currency', `no FX rate for ${currency} → ${reportingCurrency} on or before this date`);
+
+    const firstLine = firstSeenLine.get(transactionId);
+    if (firstLine !== undefined) {
+      duplicates.add(transactionId);
+      return reject('transaction_id', `duplicate transaction_id (first seen on line ${firstLine})`);
     }
+    firstSeenLine.set(transactionId, line);
+
+    // Self-transfers are accepted and only reported
+    if (senderId === receiverId) selfTransfers.push(transactionId);
 
     transactions.push({
-      transaction_id: row.transaction_id.trim(),
-      sender_id: row.sender_id.trim(),
-      receiver_id: row.receiver_id.trim(),
-      amount,
+      transaction_id: transactionId,
+      sender_id: senderId,
+      receiver_id: receiverId,
+      amount: normalized,
+      original_amount: amount,
+      currency,
       timestamp,
     });
-  }
+    currencies[currency] = (currencies[currency] || 0) + 1;
+  };
+
+  return {
+    hasHeader: () => header !== null,
+    setHeader,
+    rowsRead: () => rowsRead,
+    addRows(rows: Record<string, string>[]) {
+      for (const row of rows) {
+        const values = Object.values(row);
+        const line = nextLine;
+        nextLine += 1 + lineBreaks(values);
+        // A blank line parses as a single empty field
+        if (values.length === 1 && values[0] === '') continue;
+        addRow(row, line);
+      }
+    },
+    finish(): ParsedCSV {
+      if (rowsRead === 0) throw new Error('CSV file is empty');
 
-  if (errors.length > 0 && transactions.length === 0) {
-    throw new Error(`All rows invalid. First errors:\n${errors.slice(0, 5).join('\n')}`);
+      const report: IngestionReport = {
+        rows_read: rowsRead,
+        rows_accepted: transactions.length,
+        rows_rejected: rejected,
+        duplicate_transaction_ids: Array.from(duplicates),
+        self_transfers: selfTransfers,
+        currencies,
+        reporting_currency: reportingCurrency,
+      };
+      return { transactions, report };
+    },
+  };
+}
+
+/** Line breaks inside parsed fields, including a row's extra fields (__parsed_extra) */
+function lineBreaks(values: unknown[]): number {
+  let count = 0;
+  for (const value of values) {
+    if (Array.isArray(value)) count += lineBreaks(value);
+    else if (typeof value === 'string') count += value.match(/\r\n|\r|\n/g)?.length ?? 0;
   }
+  return count;
+}
 
-  if (errors.length > 0) {
-    console.warn(`${errors.length} rows skipped due to validation errors`);
+/** Rejected rows as CSV: line, column, reason, then the original fields. */
+export function rejectedRowsToCSV(report: IngestionReport): string {
+  const originalFields = new Set<string>();
+  for (const r of report.rows_rejected) {
+    for (const key of Object.keys(r.row)) originalFields.add(key);
   }
+  const fields = ['line', 'column', 'reason', ...originalFields];
 
-  return transactions;
+  return Papa.unparse({
+    fields,
+    data: report.rows_rejected.map(r => [
+      r.line,
+      r.column ?? '',
+      r.reason,
+      ...Array.from(originalFields, f => r.row[f] ?? ''),
+    ]),
+  });
 }
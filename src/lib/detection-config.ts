@@ -0,0 +1,161 @@
+import type { DetectionConfig } from './types';
+
+export const DEFAULT_DETECTION_CONFIG: DetectionConfig = {
+  smurfing_window_hours: 72,
+  smurfing_min_counterparties: 10,
+  cycle_min_length: 3,
+  cycle_max_length: 5,
+  cycle_max_per_component: 10000,
+  temporal_cycles: false,
+  cycle_window_hours: 72,
+  shell_min_chain_length: 3,
+  shell_max_chain_length: 6,
+  shell_min_transactions: 2,
+  shell_max_transactions: 3,
+  shell_forwarding_window_hours: 72,
+  shell_min_forward_ratio: 0.5,
+  shell_fee_tolerance: 0.05,
+  pass_through_max_dwell_hours: 24,
+  pass_through_min_ratio: 0.8,
+  pass_through_min_transactions: 4,
+  pass_through_min_value: 3000,
+  structuring_threshold: 10000,
+  structuring_margin: 0.1,
+  structuring_window_hours: 72,
+  structuring_min_transactions: 3,
+  structuring_round_unit: 500,
+  structuring_split_tolerance: 0.05,
+  scatter_gather_min_intermediaries: 5,
+  scatter_gather_window_hours: 168,
+  dormant_min_gap_days: 90,
+  dormant_burst_days: 7,
+  dormant_burst_min_value: 10000,
+  dormant_burst_min_transactions: 3,
+  velocity_baseline_days: 30,
+  velocity_min_history_days: 14,
+  velocity_z_threshold: 3.5,
+  velocity_min_transactions: 5,
+  legitimate_volume_threshold: 100,
+  registry_penalty: 30,
+  watchlist_max_hops: 2,
+  feedback_suppress: false,
+  feedback_penalty: 30,
+  feedback_expiry_days: 90,
+};
+
+// Upper bounds keep the depth-limited searches from blowing up exponentially
+export const MAX_CYCLE_LENGTH = 8;
+const MAX_SHELL_CHAIN_LENGTH = 10;
+// Beyond a few hops nearly every account is "near" a watchlisted one
+const MAX_WATCHLIST_HOPS = 4;
+
+/**
+ * Merge overrides onto the defaults and validate the result.
+ * Throws a single Error listing every invalid parameter.
+ */
+export function resolveDetectionConfig(overrides: Partial<DetectionConfig> = {}): DetectionConfig {
+  const config: DetectionConfig = { ...DEFAULT_DETECTION_CONFIG };
+  const errors: string[] = [];
+
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!(key in DEFAULT_DETECTION_CONFIG)) {
+      errors.push(`Unknown parameter: ${key}`);
+    } else if (value !== undefined) {
+      Object.assign(config, { [key]: value });
+    }
+  }
+
+  for (const key of Object.keys(DEFAULT_DETECTION_CONFIG) as (keyof DetectionConfig)[]) {
+    const value = config[key];
+    if (typeof DEFAULT_DETECTION_CONFIG[key] === 'boolean') {
+      if (typeof value !== 'boolean') errors.push(`${key} must be true or false`);
+    } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${key} must be a finite number`);
+    }
+  }
+  if (errors.length > 0) throw new Error(`Invalid detection config:\n${errors.join('\n')}`);
+
+  const integers: (keyof DetectionConfig)[] = [
+    'smurfing_min_counterparties',
+    'cycle_min_length',
+    'cycle_max_length',
+    'cycle_max_per_component',
+    'shell_min_chain_length',
+    'shell_max_chain_length',
+    'shell_min_transactions',
+    'shell_max_transactions',
+    'pass_through_min_transactions',
+    'structuring_min_transactions',
+    'scatter_gather_min_intermediaries',
+    'dormant_burst_min_transactions',
+    'velocity_baseline_days',
+    'velocity_min_history_days',
+    'velocity_min_transactions',
+    'legitimate_volume_threshold',
+    'watchlist_max_hops',
+  ];
+  for (const key of integers) {
+    if (!Number.isInteger(config[key])) errors.push(`${key} must be an integer`);
+  }
+
+  if (config.smurfing_window_hours <= 0) errors.push('smurfing_window_hours must be > 0');
+  if (config.shell_forwarding_window_hours <= 0) errors.push('shell_forwarding_window_hours must be > 0');
+  if (config.pass_through_max_dwell_hours <= 0) errors.push('pass_through_max_dwell_hours must be > 0');
+  if (config.pass_through_min_ratio <= 0 || config.pass_through_min_ratio > 1) {
+    errors.push('pass_through_min_ratio must be > 0 and ≤ 1');
+  }
+  if (config.pass_through_min_transactions < 2) errors.push('pass_through_min_transactions must be ≥ 2');
+  if (config.pass_through_min_value < 0) errors.push('pass_through_min_value must be ≥ 0');
+  if (config.structuring_threshold <= 0) errors.push('structuring_threshold must be > 0');
+  if (config.structuring_margin <= 0 || config.structuring_margin >= 1) errors.push('structuring_margin must be between 0 and 1');
+  if (config.structuring_window_hours <= 0) errors.push('structuring_window_hours must be > 0');
+  if (config.structuring_min_transactions < 2) errors.push('structuring_min_transactions must be ≥ 2');
+  if (config.structuring_round_unit < 0.01) errors.push('structuring_round_unit must be ≥ 0.01');
+  if (config.structuring_split_tolerance < 0 || config.structuring_split_tolerance >= 1) {
+    errors.push('structuring_split_tolerance must be ≥ 0 and < 1');
+  }
+  if (config.scatter_gather_min_intermediaries < 2) errors.push('scatter_gather_min_intermediaries must be ≥ 2');
+  if (config.scatter_gather_window_hours <= 0) errors.push('scatter_gather_window_hours must be > 0');
+  if (config.dormant_min_gap_days <= 0) errors.push('dormant_min_gap_days must be > 0');
+  if (config.dormant_burst_days <= 0) errors.push('dormant_burst_days must be > 0');
+  if (config.dormant_burst_min_value < 0) errors.push('dormant_burst_min_value must be ≥ 0');
+  if (config.dormant_burst_min_transactions < 1) errors.push('dormant_burst_min_transactions must be ≥ 1');
+  if (config.velocity_baseline_days < 1) errors.push('velocity_baseline_days must be ≥ 1');
+  if (config.velocity_min_history_days < 1) errors.push('velocity_min_history_days must be ≥ 1');
+  if (config.velocity_z_threshold <= 0) errors.push('velocity_z_threshold must be > 0');
+  if (config.velocity_min_transactions < 1) errors.push('velocity_min_transactions must be ≥ 1');
+  if (config.smurfing_min_counterparties < 2) errors.push('smurfing_min_counterparties must be ≥ 2');
+
+  if (config.cycle_min_length < 2) errors.push('cycle_min_length must be ≥ 2');
+  if (config.cycle_max_length > MAX_CYCLE_LENGTH) errors.push(`cycle_max_length must be ≤ ${MAX_CYCLE_LENGTH}`);
+  if (config.cycle_min_length > config.cycle_max_length) errors.push('cycle_min_length must be ≤ cycle_max_length');
+  if (config.cycle_max_per_component < 1) errors.push('cycle_max_per_component must be ≥ 1');
+  if (config.cycle_window_hours <= 0) errors.push('cycle_window_hours must be > 0');
+
+  if (config.shell_min_chain_length < 3) errors.push('shell_min_chain_length must be ≥ 3');
+  if (config.shell_max_chain_length > MAX_SHELL_CHAIN_LENGTH) errors.push(`shell_max_chain_length must be ≤ ${MAX_SHELL_CHAIN_LENGTH}`);
+  if (config.shell_min_chain_length > config.shell_max_chain_length) errors.push('shell_min_chain_length must be ≤ shell_max_chain_length');
+
+  if (config.shell_min_forward_ratio < 0 || config.shell_min_forward_ratio > 1) {
+    errors.push('shell_min_forward_ratio must be between 0 and 1');
+  }
+  if (config.shell_fee_tolerance < 0 || config.shell_fee_tolerance >= 1) errors.push('shell_fee_tolerance must be ≥ 0 and < 1');
+
+  if (config.shell_min_transactions < 1) errors.push('shell_min_transactions must be ≥ 1');
+  if (config.shell_min_transactions > config.shell_max_transactions) errors.push('shell_min_transactions must be ≤ shell_max_transactions');
+
+  if (config.legitimate_volume_threshold !== 0 && config.legitimate_volume_threshold < config.smurfing_min_counterparties) {
+    errors.push('legitimate_volume_threshold must be 0 (disabled) or ≥ smurfing_min_counterparties');
+  }
+  if (config.watchlist_max_hops < 1 || config.watchlist_max_hops > MAX_WATCHLIST_HOPS) {
+    errors.push(`watchlist_max_hops must be between 1 and ${MAX_WATCHLIST_HOPS}`);
+  }
+  if (config.registry_penalty < 0 || config.registry_penalty > 100) errors.push('registry_penalty must be between 0 and 100');
+
+  if (config.feedback_penalty < 0 || config.feedback_penalty > 100) errors.push('feedback_penalty must be between 0 and 100');
+  if (config.feedback_expiry_days <= 0) errors.push('feedback_expiry_days must be > 0');
+
+  if (errors.length > 0) throw new Error(`Invalid detection config:\n${errors.join('\n')}`);
+
+  return config;
+}
@@ -1,60 +1,128 @@
 import type { TransactionGraph } from './graph-engine';
-import type { FraudRing, Transaction } from './types';
+import { buildActivityTimeline, DAY_MS } from './graph-engine';
+import type {
+  AccountExclusion,
+  DetectionConfig,
+  FraudRing,
+  GraphNode,
+  RingEvidence,
+  Transaction,
+  WatchlistEntry,
+} from './types';
+import { DEFAULT_DETECTION_CONFIG } from './detection-config';
+import { ringId } from './ring-id';
 
-let ringCounter = 0;
+const HOUR_MS = 60 * 60 * 1000;
 
-export function resetRingCounter() {
-  ringCounter = 0;
+/**
+ * Mark the members of a detected ring with its pattern and ring ID; subject-only
+ * patterns pass just the account under test as `accounts`
+ */
+export function flagRing(graph: TransactionGraph, ring: FraudRing, accounts: string[] = ring.member_accounts): void {
+  for (const memberId of accounts) {
+    const node = graph.nodes.get(memberId)!;
+    node.isSuspicious = true;
+    node.detectedPatterns.push(ring.pattern_type);
+    node.ringIds.push(ring.ring_id);
+  }
 }
 
-function nextRingId(): string {
-  ringCounter++;
-  return `RING_${String(ringCounter).padStart(3, '0')}`;
+/** For incremental runs: keep only rings that include an account the new batch touched */
+function includesTouched(members: string[], touched: Set<string> | null): boolean {
+  return !touched || members.some(id => touched.has(id));
 }
 
-// ─── CYCLE DETECTION (Iterative DFS, length 3-5) ───
-
-export function detectCycles(graph: TransactionGraph): FraudRing[] {
-  const rings: FraudRing[] = [];
-  const allCycles: string[][] = [];
-  const nodeIds = Array.from(graph.nodes.keys());
+function buildEvidence(
+  pattern_type: string,
+  txs: Transaction[],
+  shape: { path?: string[]; hub_account?: string }
+): RingEvidence {
+  let start = Infinity;
+  let end = -Infinity;
+  let total = 0;
+  for (const tx of txs) {
+    const t = tx.timestamp.getTime();
+    if (t < start) start = t;
+    if (t > end) end = t;
+    total += tx.amount;
+  }
+  return {
+    pattern_type,
+    ...shape,
+    transaction_ids: txs.map(tx => tx.transaction_id),
+    window_start: new Date(start).toISOString(),
+    window_end: new Date(end).toISOString(),
+    total_value: Math.round(total * 100) / 100,
+  };
+}
 
-  for (const startNode of nodeIds) {
-    // Iterative DFS with explicit stack
-    const stack: { current: string; path: string[]; visited: Set<string> }[] = [];
-    stack.push({ current: startNode, path: [], visited: new Set() });
+/** Transactions on each consecutive edge of an account path */
+function pathTransactions(graph: TransactionGraph, path: string[], closed: boolean): Transaction[] {
+  const txs: Transaction[] = [];
+  const hops = closed ? path.length : path.length - 1;
+  for (let i = 0; i < hops; i++) {
+    const edge = graph.edges.get(`${path[i]}->${path[(i + 1) % path.length]}`);
+    if (edge) txs.push(...edge.transactions);
+  }
+  return txs;
+}
 
-    while (stack.length > 0) {
-      const { current, path, visited } = stack.pop()!;
-      
-      if (path.length > 5) continue;
+// ─── CYCLE DETECTION (bounded Johnson-style enumeration per SCC, length 3-5 by default) ───
+// Cycles can only live inside a strongly connected component, so enumeration is
+// restricted to SCCs. Within one, each cycle is found exactly once, rooted at its
+// lowest-ordered member. A per-SCC cap bounds the work on dense components.
+// In temporal mode a cycle only counts if its hops can be matched by
+// transactions with strictly increasing timestamps inside cycle_window_hours.
+// Given `touched`, only cycles through those accounts are searched for: every
+// such cycle lies within cycle_max_length - 1 forward hops of one of them.
 
-      const newPath = [...path, current];
-      const newVisited = new Set(visited);
-      newVisited.add(current);
+export function detectCycles(
+  graph: TransactionGraph,
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG,
+  warnings: string[] = [],
+  touched: Set<string> | null = null
+): FraudRing[] {
+  const { cycle_min_length: minLen, cycle_max_length: maxLen, cycle_max_per_component: cap } = config;
+  const rings: FraudRing[] = [];
+  const allCycles: string[][] = [];
+  const reach = touched && graph.getNeighborhood(touched, maxLen - 1, 'out');
 
-      for (const neighbor of graph.getNeighbors(current)) {
-        if (neighbor === startNode && newPath.length >= 3) {
-          allCycles.push([...newPath]);
-        } else if (!newVisited.has(neighbor) && newPath.length < 5) {
-          stack.push({ current: neighbor, path: newPath, visited: newVisited });
-        }
-      }
+  for (const scc of graph.getStronglyConnectedComponents()) {
+    // Money routed through an excluded entity does not count as a cycle
+    const component = scc.filter(id => !isExcludedEntity(graph.nodes.get(id)) && (!reach || reach.has(id)));
+    if (component.length < minLen || !includesTouched(component, touched)) continue;
+    const { cycles, capped } = enumerateComponentCycles(graph, component, minLen, maxLen, cap);
+    allCycles.push(...cycles.filter(cycle => includesTouched(cycle, touched)));
+    if (capped) {
+      warnings.push(
+        `Cycle enumeration stopped at ${cap} cycles in a strongly connected component of ${component.length} accounts; ` +
+        'cycle results for that component are incomplete'
+      );
     }
   }
 
-  // Deduplicate: canonical key = sorted members
-  const seen = new Set<string>();
-  const candidateCycles: { key: string; cycle: string[] }[] = [];
+  // Deduplicate: canonical key = sorted members (distinct orderings of one member set collapse).
+  // In temporal mode keep the tightest valid transaction sequence across orderings.
+  const windowMs = config.cycle_window_hours * HOUR_MS;
+  const candidateByKey = new Map<string, { key: string; cycle: string[]; path: string[]; sequence?: Transaction[] }>();
 
   for (const cycle of allCycles) {
     const sorted = [...cycle].sort();
     const key = sorted.join(',');
-    if (!seen.has(key)) {
-      seen.add(key);
-      candidateCycles.push({ key, cycle: sorted });
+    const existing = candidateByKey.get(key);
+
+    if (!config.temporal_cycles) {
+      if (!existing) candidateByKey.set(key, { key, cycle: sorted, path: cycle });
+      continue;
+    }
+
+    const match = findTemporalSequence(graph, cycle, windowMs);
+    if (!match) continue;
+    if (!existing || sequenceSpan(match.sequence) < sequenceSpan(existing.sequence!)) {
+      candidateByKey.set(key, { key, cycle: sorted, path: match.path, sequence: match.sequence });
     }
   }
+  const candidateCycles = Array.from(candidateByKey.values());
 
   // Remove subset cycles: if cycle A members ⊂ cycle B members, discard A
   const memberSets = candidateCycles.map(c => new Set(c.cycle));
@@ -77,26 +145,144 @@ export function detectCycles(graph: TransactionGraph): FraudRing[] {
 
   for (let i = 0; i < candidateCycles.length; i++) {
     if (isSubset[i]) continue;
-    const cycle = candidateCycles[i].cycle;
-    const ringId = nextRingId();
+    const { cycle, path, sequence } = candidateCycles[i];
     const riskScore = computeCycleRisk(graph, cycle);
-    
-    rings.push({
-      ring_id: ringId,
+    const pattern = `cycle_length_${cycle.length}`;
+
+    const ring: FraudRing = {
+      ring_id: ringId(pattern, cycle),
       member_accounts: cycle,
-      pattern_type: `cycle_length_${cycle.length}`,
+      pattern_type: pattern,
       risk_score: Math.round(riskScore * 10) / 10,
-    });
+      evidence: [buildEvidence(pattern, sequence ?? pathTransactions(graph, path, true), { path })],
+    };
+    rings.push(ring);
+    flagRing(graph, ring);
+  }
 
-    for (const nodeId of cycle) {
-      const node = graph.nodes.get(nodeId)!;
-      node.isSuspicious = true;
-      node.detectedPatterns.push(`cycle_length_${cycle.length}`);
-      node.ringIds.push(ringId);
+  return rings;
+}
+
+/**
+ * Enumerate simple cycles of minLen..maxLen accounts inside one SCC.
+ * Accounts are ordered; a search rooted at account s only visits accounts
+ * ordered after s, so every cycle is emitted once. A reverse BFS gives each
+ * account's hop distance back to s, pruning branches that cannot close the
+ * cycle within maxLen. Stops once `cap` cycles have been found.
+ */
+function enumerateComponentCycles(
+  graph: TransactionGraph,
+  component: string[],
+  minLen: number,
+  maxLen: number,
+  cap: number
+): { cycles: string[][]; capped: boolean } {
+  const order = new Map(component.map((id, i) => [id, i]));
+  const cycles: string[][] = [];
+
+  for (let s = 0; s < component.length; s++) {
+    const start = component[s];
+
+    const distance = new Map<string, number>([[start, 0]]);
+    let frontier = [start];
+    for (let d = 1; d < maxLen && frontier.length > 0; d++) {
+      const next: string[] = [];
+      for (const v of frontier) {
+        for (const u of graph.getIncoming(v)) {
+          const o = order.get(u);
+          if (o === undefined || o <= s || distance.has(u)) continue;
+          distance.set(u, d);
+          next.push(u);
+        }
+      }
+      frontier = next;
+    }
+
+    // Iterative DFS over a single shared path
+    const path = [start];
+    const onPath = new Set([start]);
+    const frames = [{ neighbors: graph.getNeighbors(start), i: 0 }];
+
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      if (frame.i >= frame.neighbors.length) {
+        frames.pop();
+        onPath.delete(path.pop()!);
+        continue;
+      }
+
+      const next = frame.neighbors[frame.i++];
+      if (next === start) {
+        if (path.length >= minLen) {
+          cycles.push([...path]);
+          if (cycles.length >= cap) return { cycles, capped: true };
+        }
+        continue;
+      }
+
+      const o = order.get(next);
+      const d = distance.get(next);
+      if (o === undefined || o <= s || onPath.has(next) || d === undefined || path.length + d > maxLen) continue;
+
+      path.push(next);
+      onPath.add(next);
+      frames.push({ neighbors: graph.getNeighbors(next), i: 0 });
     }
   }
 
-  return rings;
+  return { cycles, capped: false };
+}
+
+/**
+ * Tightest sequence of transactions around the cycle whose timestamps strictly
+ * increase and whose total span fits in the window, trying every hop as the
+ * first one. Greedy earliest-next is optimal for a fixed first transaction.
+ * Returns the path rotated to start where the money starts.
+ */
+function findTemporalSequence(
+  graph: TransactionGraph,
+  cycle: string[],
+  windowMs: number
+): { path: string[]; sequence: Transaction[] } | null {
+  const hops: Transaction[][] = [];
+  for (let i = 0; i < cycle.length; i++) {
+    const edge = graph.edges.get(`${cycle[i]}->${cycle[(i + 1) % cycle.length]}`);
+    if (!edge) return null;
+    hops.push([...edge.transactions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()));
+  }
+
+  let best: { path: string[]; sequence: Transaction[] } | null = null;
+  for (let r = 0; r < cycle.length; r++) {
+    for (const first of hops[r]) {
+      const start = first.timestamp.getTime();
+      const sequence = [first];
+      let last = start;
+      for (let h = 1; h < cycle.length; h++) {
+        const next = firstAfter(hops[(r + h) % cycle.length], last);
+        if (!next || next.timestamp.getTime() - start > windowMs) break;
+        sequence.push(next);
+        last = next.timestamp.getTime();
+      }
+      if (sequence.length === cycle.length && (!best || sequenceSpan(sequence) < sequenceSpan(best.sequence))) {
+        best = { path: [...cycle.slice(r), ...cycle.slice(0, r)], sequence };
+      }
+    }
+  }
+  return best;
+}
+
+/** First transaction strictly after `time` in a timestamp-sorted list */
+function firstAfter(sorted: Transaction[], time: number): Transaction | null {
+  let lo = 0, hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid].timestamp.getTime() <= time) lo = mid + 1; else hi = mid;
+  }
+  return lo < sorted.length ? sorted[lo] : null;
+}
+
+function sequenceSpan(sequence: Transaction[]): number {
+  return sequence[sequence.length - 1].timestamp.getTime() - sequence[0].timestamp.getTime();
 }
 
 function computeCycleRisk(graph: TransactionGraph, cycle: string[]): number {
@@ -104,7 +290,7 @@ function computeCycleRisk(graph: TransactionGraph, cycle: string[]): number {
   // Longer cycles = higher risk (layered laundering)
   if (cycle.length === 3) score += 15;
   else if (cycle.length === 4) score += 25;
-  else if (cycle.length === 5) score += 35;
+  else if (cycle.length >= 5) score += 35;
 
   // Transaction velocity
   let totalTx = 0;
@@ -119,70 +305,68 @@ function computeCycleRisk(graph: TransactionGraph, cycle: string[]): number {
   return Math.min(100, score);
 }
 
-// ─── SMURFING DETECTION (Fan-in / Fan-out with 72h window) ───
+// ─── SMURFING DETECTION (Fan-in / Fan-out within a sliding window, 72h by default) ───
+// Pattern names keep the `_72h` suffix regardless of the configured window so
+// scoring and severity ranking stay stable across configs.
+// Given `touched`, only hubs that are touched or trade with a touched account
+// are checked, and only rings including a touched account are returned.
 
-export function detectSmurfing(graph: TransactionGraph): FraudRing[] {
+export function detectSmurfing(
+  graph: TransactionGraph,
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG,
+  touched: Set<string> | null = null
+): FraudRing[] {
   const rings: FraudRing[] = [];
-  const WINDOW_MS = 72 * 60 * 60 * 1000;
-  const THRESHOLD = 10;
+  const WINDOW_MS = config.smurfing_window_hours * HOUR_MS;
+  const THRESHOLD = config.smurfing_min_counterparties;
   const flaggedAggregators = new Set<string>(); // One ring per aggregator
+  const hubs = touched && graph.getNeighborhood(touched, 1, 'both');
 
   for (const [nodeId, node] of graph.nodes) {
+    if (hubs && !hubs.has(nodeId)) continue;
     // Skip legitimate high-volume accounts
-    if (isLegitimate(node)) continue;
+    if (isLegitimate(node, config)) continue;
 
-    // Fan-in: many senders -> this node within 72h
+    // Fan-in: many senders -> this node within the window
     if (!flaggedAggregators.has(`in_${nodeId}`)) {
-      const incomingSenders = graph.getIncoming(nodeId);
+      const incomingSenders = graph.getIncoming(nodeId).filter(id => !isExcludedEntity(graph.nodes.get(id)));
       if (incomingSenders.length >= THRESHOLD) {
-        const windowSenders = getTemporalCounterparts(graph, incomingSenders, nodeId, 'incoming', WINDOW_MS);
-        if (windowSenders && windowSenders.size >= THRESHOLD) {
+        const window = getTemporalCounterparts(graph, incomingSenders, nodeId, 'incoming', WINDOW_MS, THRESHOLD);
+        const windowSenders = window?.counterparts;
+        const members = windowSenders && [nodeId, ...Array.from(windowSenders)].sort();
+        if (windowSenders && windowSenders.size >= THRESHOLD && includesTouched(members, touched)) {
           flaggedAggregators.add(`in_${nodeId}`);
-          const ringId = nextRingId();
-          const members = [nodeId, ...Array.from(windowSenders)].sort();
-          rings.push({
-            ring_id: ringId,
+          const ring: FraudRing = {
+            ring_id: ringId('fan_in_72h', members),
             member_accounts: members,
             pattern_type: 'fan_in_72h',
             risk_score: Math.round(Math.min(100, 60 + windowSenders.size * 2) * 10) / 10,
-          });
-          node.isSuspicious = true;
-          node.detectedPatterns.push('fan_in_72h');
-          node.ringIds.push(ringId);
-          for (const s of windowSenders) {
-            const sNode = graph.nodes.get(s)!;
-            sNode.isSuspicious = true;
-            sNode.detectedPatterns.push('fan_in_72h');
-            sNode.ringIds.push(ringId);
-          }
+            evidence: [buildEvidence('fan_in_72h', window.transactions, { hub_account: nodeId })],
+          };
+          rings.push(ring);
+          flagRing(graph, ring);
         }
       }
     }
 
-    // Fan-out: this node -> many receivers within 72h
+    // Fan-out: this node -> many receivers within the window
     if (!flaggedAggregators.has(`out_${nodeId}`)) {
-      const outgoingReceivers = graph.getNeighbors(nodeId);
+      const outgoingReceivers = graph.getNeighbors(nodeId).filter(id => !isExcludedEntity(graph.nodes.get(id)));
       if (outgoingReceivers.length >= THRESHOLD) {
-        const windowReceivers = getTemporalCounterparts(graph, outgoingReceivers, nodeId, 'outgoing', WINDOW_MS);
-        if (windowReceivers && windowReceivers.size >= THRESHOLD) {
+        const window = getTemporalCounterparts(graph, outgoingReceivers, nodeId, 'outgoing', WINDOW_MS, THRESHOLD);
+        const windowReceivers = window?.counterparts;
+        const members = windowReceivers && [nodeId, ...Array.from(windowReceivers)].sort();
+        if (windowReceivers && windowReceivers.size >= THRESHOLD && includesTouched(members, touched)) {
           flaggedAggregators.add(`out_${nodeId}`);
-          const ringId = nextRingId();
-          const members = [nodeId, ...Array.from(windowReceivers)].sort();
-          rings.push({
-            ring_id: ringId,
+          const ring: FraudRing = {
+            ring_id: ringId('fan_out_72h', members),
             member_accounts: members,
             pattern_type: 'fan_out_72h',
             risk_score: Math.round(Math.min(100, 60 + windowReceivers.size * 2) * 10) / 10,
-          });
-          node.isSuspicious = true;
-          node.detectedPatterns.push('fan_out_72h');
-          node.ringIds.push(ringId);
-          for (const s of windowReceivers) {
-            const sNode = graph.nodes.get(s)!;
-            sNode.isSuspicious = true;
-            sNode.detectedPatterns.push('fan_out_72h');
-            sNode.ringIds.push(ringId);
-          }
+            evidence: [buildEvidence('fan_out_72h', window.transactions, { hub_account: nodeId })],
+          };
+          rings.push(ring);
+          flagRing(graph, ring);
         }
       }
     }
@@ -196,16 +380,17 @@ function getTemporalCounterparts(
   counterparts: string[],
   nodeId: string,
   direction: 'incoming' | 'outgoing',
-  windowMs: number
-): Set<string> | null {
-  const txs: { counterpart: string; timestamp: number }[] = [];
+  windowMs: number,
+  minCounterparties: number
+): { counterparts: Set<string>; transactions: Transaction[] } | null {
+  const txs: { counterpart: string; timestamp: number; tx: Transaction }[] = [];
 
   for (const cp of counterparts) {
     const edgeKey = direction === 'incoming' ? `${cp}->${nodeId}` : `${nodeId}->${cp}`;
     const edge = graph.edges.get(edgeKey);
     if (edge) {
       for (const tx of edge.transactions) {
-        txs.push({ counterpart: cp, timestamp: tx.timestamp.getTime() });
+        txs.push({ counterpart: cp, timestamp: tx.timestamp.getTime(), tx });
       }
     }
   }
@@ -216,6 +401,7 @@ function getTemporalCounterparts(
   // Sliding window
   let start = 0;
   let bestWindow: Set<string> | null = null;
+  let bestRange: [number, number] = [0, 0];
 
   for (let end = 0; end < txs.length; end++) {
     while (txs[end].timestamp - txs[start].timestamp > windowMs) {
@@ -225,60 +411,775 @@ function getTemporalCounterparts(
     for (let i = start; i <= end; i++) {
       windowSenders.add(txs[i].counterpart);
     }
-    if (windowSenders.size >= 10) {
+    if (windowSenders.size >= minCounterparties) {
       if (!bestWindow || windowSenders.size > bestWindow.size) {
         bestWindow = windowSenders;
+        bestRange = [start, end];
       }
     }
   }
 
-  return bestWindow;
+  if (!bestWindow) return null;
+  return {
+    counterparts: bestWindow,
+    transactions: txs.slice(bestRange[0], bestRange[1] + 1).map(t => t.tx),
+  };
 }
 
-function isLegitimate(node: import('./types').GraphNode): boolean {
+// ─── PASS-THROUGH DETECTION (rapid in-and-out accounts) ───
+// Inbound transactions are matched FIFO against later outbound ones; inbound
+// funds not forwarded within pass_through_max_dwell_hours count as retained.
+// An account forwarding ≥ pass_through_min_ratio of everything it received,
+// over ≥ pass_through_min_transactions matched transactions worth
+// ≥ pass_through_min_value, forms a ring with the counterparties of its
+// matched flows; only the account itself is flagged.
+// Given `touched`, only touched accounts and their counterparties are checked.
+
+export interface PassThroughStats {
+  received: number;
+  forwarded: number;
+  /** forwarded / received */
+  ratio: number;
+  /** Median time from receipt to forwarding over matched flows (hours) */
+  medianDwellHours: number;
+  inbound: Transaction[];
+  outbound: Transaction[];
+}
+
+export function computePassThrough(graph: TransactionGraph, nodeId: string, config: DetectionConfig): PassThroughStats | null {
+  const node = graph.nodes.get(nodeId);
+  if (!node) return null;
+  const dwellMs = config.pass_through_max_dwell_hours * HOUR_MS;
+
+  // Receipts sort before payments at the same instant so zero-dwell forwarding matches
+  const txs = visibleTransactions(graph, nodeId)
+    .filter(tx => tx.sender_id !== tx.receiver_id)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime() || (a.receiver_id === nodeId ? -1 : 1));
+
+  const lots: { tx: Transaction; remaining: number }[] = [];
+  const inbound = new Set<Transaction>();
+  const outbound = new Set<Transaction>();
+  const dwells: number[] = [];
+  let received = 0;
+  let forwarded = 0;
+
+  for (const tx of txs) {
+    const time = tx.timestamp.getTime();
+    if (tx.receiver_id === nodeId) {
+      received += tx.amount;
+      lots.push({ tx, remaining: tx.amount });
+      continue;
+    }
+    while (lots.length > 0 && time - lots[0].tx.timestamp.getTime() > dwellMs) lots.shift();
+    let outstanding = tx.amount;
+    while (outstanding > 0 && lots.length > 0) {
+      const lot = lots[0];
+      const take = Math.min(outstanding, lot.remaining);
+      forwarded += take;
+      outstanding -= take;
+      lot.remaining -= take;
+      inbound.add(lot.tx);
+      outbound.add(tx);
+      dwells.push(time - lot.tx.timestamp.getTime());
+      if (lot.remaining <= 0) lots.shift();
+    }
+  }
+  if (received <= 0 || dwells.length === 0) return null;
+
+  return {
+    received,
+    forwarded,
+    ratio: forwarded / received,
+    medianDwellHours: median(dwells) / HOUR_MS,
+    inbound: [...inbound],
+    outbound: [...outbound],
+  };
+}
+
+export function detectPassThrough(
+  graph: TransactionGraph,
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG,
+  touched: Set<string> | null = null
+): FraudRing[] {
+  const rings: FraudRing[] = [];
+  const candidates = touched && graph.getNeighborhood(touched, 1, 'both');
+
+  for (const [nodeId, node] of graph.nodes) {
+    if (candidates && !candidates.has(nodeId)) continue;
+    if (isLegitimate(node, config)) continue;
+
+    const stats = computePassThrough(graph, nodeId, config);
+    if (!stats || stats.ratio < config.pass_through_min_ratio) continue;
+    // A single receive-and-forward pair is what every cycle or chain intermediary does
+    if (stats.inbound.length + stats.outbound.length < config.pass_through_min_transactions) continue;
+    if (stats.forwarded < config.pass_through_min_value) continue;
+
+    const members = [...new Set([
+      nodeId,
+      ...stats.inbound.map(tx => tx.sender_id),
+      ...stats.outbound.map(tx => tx.receiver_id),
+    ])].sort();
+    if (!includesTouched(members, touched)) continue;
+
+    const ring: FraudRing = {
+      ring_id: ringId('pass_through', members),
+      member_accounts: members,
+      pattern_type: 'pass_through',
+      risk_score: Math.round(Math.min(100, 50 + stats.ratio * 40) * 10) / 10,
+      evidence: [{
+        ...buildEvidence('pass_through', [...stats.inbound, ...stats.outbound], { hub_account: nodeId }),
+        total_value: Math.round(stats.forwarded * 100) / 100,
+        median_dwell_hours: Math.round(stats.medianDwellHours * 10) / 10,
+        pass_through_ratio: Math.round(stats.ratio * 1000) / 1000,
+      }],
+    };
+    rings.push(ring);
+    flagRing(graph, ring, [nodeId]);
+  }
+
+  return rings;
+}
+
+// ─── STRUCTURING DETECTION (amounts kept below a reporting threshold) ───
+// Receipts and payments are checked separately for three signals, each
+// reported as its own evidence entry:
+// - sub_threshold: ≥ structuring_min_transactions amounts within
+//   structuring_margin below structuring_threshold inside one window
+// - round_amounts: as many multiples of structuring_round_unit (in the
+//   currency of the source file, since converted amounts are rarely round)
+//   inside one window, between half the threshold and the threshold (small
+//   round payments are everyday spending)
+// - split: a transfer at or above the threshold matched by ≥ 2 smaller
+//   opposite-direction payments in the window before it (gathered) or after it
+//   (split up), summing to within structuring_split_tolerance of it
+// The account forms a ring with its counterparties in those transactions; only
+// the account itself is flagged.
+// Given `touched`, only touched accounts and their counterparties are checked.
+
+export type StructuringSignal = 'sub_threshold' | 'round_amounts' | 'split';
+
+export interface StructuringMatch {
+  signal: StructuringSignal;
+  /** Direction of the below-threshold transactions */
+  direction: 'incoming' | 'outgoing';
+  /** For split: the transfer the smaller payments add up to */
+  transfer?: Transaction;
+  transactions: Transaction[];
+}
+
+export function findStructuring(graph: TransactionGraph, nodeId: string, config: DetectionConfig): StructuringMatch[] {
+  const node = graph.nodes.get(nodeId);
+  if (!node) return [];
+  const windowMs = config.structuring_window_hours * HOUR_MS;
+  const threshold = config.structuring_threshold;
+  const bandFloor = threshold * (1 - config.structuring_margin);
+  const roundUnit = Math.round(config.structuring_round_unit * 100);
+
+  const txs = visibleTransactions(graph, nodeId)
+    .filter(tx => tx.sender_id !== tx.receiver_id)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const byDirection = {
+    incoming: txs.filter(tx => tx.receiver_id === nodeId),
+    outgoing: txs.filter(tx => tx.sender_id === nodeId),
+  };
+
+  const matches: StructuringMatch[] = [];
+  for (const direction of ['incoming', 'outgoing'] as const) {
+    const flows = byDirection[direction];
+    const below = flows.filter(tx => tx.amount < threshold);
+
+    const banded = densestWindow(below.filter(tx => tx.amount >= bandFloor), windowMs);
+    if (banded.length >= config.structuring_min_transactions) {
+      matches.push({ signal: 'sub_threshold', direction, transactions: banded });
+    }
+    const round = densestWindow(
+      below.filter(tx => tx.amount >= threshold / 2 && Math.round((tx.original_amount ?? tx.amount) * 100) % roundUnit === 0),
+      windowMs
+    );
+    if (round.length >= config.structuring_min_transactions) {
+      matches.push({ signal: 'round_amounts', direction, transactions: round });
+    }
+
+    // Small receipts gathered into a large payment, or a large receipt split into small payments
+    const opposite = direction === 'incoming' ? byDirection.outgoing : byDirection.incoming;
+    for (const transfer of opposite) {
+      if (transfer.amount < threshold) continue;
+      const parts = matchSplit(below, transfer, direction === 'incoming' ? 'before' : 'after', windowMs, config);
+      if (parts) matches.push({ signal: 'split', direction, transfer, transactions: [...parts, transfer] });
+    }
+  }
+  return matches;
+}
+
+export function detectStructuring(
+  graph: TransactionGraph,
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG,
+  touched: Set<string> | null = null
+): FraudRing[] {
+  const rings: FraudRing[] = [];
+  const candidates = touched && graph.getNeighborhood(touched, 1, 'both');
+
+  for (const [nodeId, node] of graph.nodes) {
+    if (candidates && !candidates.has(nodeId)) continue;
+    if (isLegitimate(node, config)) continue;
+
+    const matches = findStructuring(graph, nodeId, config);
+    if (matches.length === 0) continue;
+
+    const members = new Set([nodeId]);
+    for (const match of matches) {
+      for (const tx of match.transactions) members.add(tx.sender_id === nodeId ? tx.receiver_id : tx.sender_id);
+    }
+    const sorted = [...members].sort();
+    if (!includesTouched(sorted, touched)) continue;
+
+    const ring: FraudRing = {
+      ring_id: ringId('structuring', sorted),
+      member_accounts: sorted,
+      pattern_type: 'structuring',
+      risk_score: Math.round(Math.min(100, 55 + matches.length * 10) * 10) / 10,
+      evidence: matches.map(match => ({
+        ...buildEvidence('structuring', match.transactions, { hub_account: nodeId }),
+        structuring_signal: match.signal,
+      })),
+    };
+    rings.push(ring);
+    flagRing(graph, ring, [nodeId]);
+  }
+
+  return rings;
+}
+
+/** Transactions (sorted by time) in the window holding the most of them */
+function densestWindow(sorted: Transaction[], windowMs: number): Transaction[] {
+  let best: [number, number] = [0, 0];
+  let start = 0;
+  for (let end = 0; end < sorted.length; end++) {
+    while (sorted[end].timestamp.getTime() - sorted[start].timestamp.getTime() > windowMs) start++;
+    if (end + 1 - start > best[1] - best[0]) best = [start, end + 1];
+  }
+  return sorted.slice(best[0], best[1]);
+}
+
+/**
+ * Smaller payments nearest in time to `transfer`, on the given side of it and
+ * inside the window, accumulated until they reach its amount; null unless at
+ * least two of them land within the split tolerance.
+ */
+function matchSplit(
+  candidates: Transaction[],
+  transfer: Transaction,
+  side: 'before' | 'after',
+  windowMs: number,
+  config: DetectionConfig
+): Transaction[] | null {
+  const time = transfer.timestamp.getTime();
+  const inWindow = candidates.filter(tx => {
+    const offset = tx.timestamp.getTime() - time;
+    return side === 'before' ? offset <= 0 && offset >= -windowMs : offset >= 0 && offset <= windowMs;
+  });
+  if (side === 'before') inWindow.reverse();
+
+  const low = transfer.amount * (1 - config.structuring_split_tolerance);
+  const high = transfer.amount * (1 + config.structuring_split_tolerance);
+  const parts: Transaction[] = [];
+  let sum = 0;
+  for (const tx of inWindow) {
+    parts.push(tx);
+    sum += tx.amount;
+    if (sum >= low) break;
+  }
+  return parts.length >= 2 && sum >= low && sum <= high ? parts : null;
+}
+
+// ─── SCATTER-GATHER DETECTION (source → many intermediaries → one collector) ───
+// For each source, every 2-hop path source → intermediary → sink is timed by
+// its first payment to the intermediary and the intermediary's first onward
+// payment to the sink after it. A source/sink pair linked by
+// ≥ scatter_gather_min_intermediaries such paths (disjoint, since each has its
+// own intermediary) that all start and finish inside one
+// scatter_gather_window_hours window forms a ring.
+// Given `touched`, only sources within two hops upstream of them are checked.
+
+export interface ScatterGatherMatch {
+  source: string;
+  sink: string;
+  intermediaries: string[];
+  /** Source → intermediary transactions inside the window */
+  scattered: Transaction[];
+  /** Intermediary → sink transactions inside the window */
+  gathered: Transaction[];
+  /** First scatter payment to last gather payment (hours) */
+  elapsedHours: number;
+}
+
+export function findScatterGather(graph: TransactionGraph, sourceId: string, config: DetectionConfig): ScatterGatherMatch[] {
+  const windowMs = config.scatter_gather_window_hours * HOUR_MS;
+  // Per sink: each intermediary's earliest timed path
+  const pathsBySink = new Map<string, { via: string; start: number; end: number }[]>();
+
+  for (const via of graph.getNeighbors(sourceId)) {
+    if (via === sourceId || isExcludedEntity(graph.nodes.get(via))) continue;
+    const scatterTimes = graph.edges.get(`${sourceId}->${via}`)!.transactions.map(tx => tx.timestamp.getTime());
+    for (const sink of graph.getNeighbors(via)) {
+      if (sink === sourceId || sink === via || isLegitimate(graph.nodes.get(sink)!, config)) continue;
+      const gatherTimes = graph.edges.get(`${via}->${sink}`)!.transactions.map(tx => tx.timestamp.getTime());
+      let best: { start: number; end: number } | null = null;
+      for (const start of scatterTimes) {
+        const end = Math.min(...gatherTimes.filter(t => t >= start && t - start <= windowMs));
+        if (Number.isFinite(end) && (!best || end - start < best.end - best.start)) best = { start, end };
+      }
+      if (!best) continue;
+      if (!pathsBySink.has(sink)) pathsBySink.set(sink, []);
+      pathsBySink.get(sink)!.push({ via, ...best });
+    }
+  }
+
+  const matches: ScatterGatherMatch[] = [];
+  for (const [sink, paths] of pathsBySink) {
+    if (paths.length < config.scatter_gather_min_intermediaries) continue;
+    // Largest set of paths fitting one window, trying each path's start as the window start
+    let bestSet: typeof paths = [];
+    for (const { start } of paths) {
+      const inside = paths.filter(p => p.start >= start && p.end <= start + windowMs);
+      if (inside.length > bestSet.length) bestSet = inside;
+    }
+    if (bestSet.length < config.scatter_gather_min_intermediaries) continue;
+
+    const from = Math.min(...bestSet.map(p => p.start));
+    const to = Math.max(...bestSet.map(p => p.end));
+    const within = (tx: Transaction) => tx.timestamp.getTime() >= from && tx.timestamp.getTime() <= to;
+    const intermediaries = bestSet.map(p => p.via).sort();
+    matches.push({
+      source: sourceId,
+      sink,
+      intermediaries,
+      scattered: intermediaries.flatMap(via => graph.edges.get(`${sourceId}->${via}`)!.transactions.filter(within)),
+      gathered: intermediaries.flatMap(via => graph.edges.get(`${via}->${sink}`)!.transactions.filter(within)),
+      elapsedHours: (to - from) / HOUR_MS,
+    });
+  }
+  return matches;
+}
+
+export function detectScatterGather(
+  graph: TransactionGraph,
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG,
+  touched: Set<string> | null = null
+): FraudRing[] {
+  const rings: FraudRing[] = [];
+  const sources = touched && graph.getNeighborhood(touched, 2, 'in');
+
+  for (const [sourceId, node] of graph.nodes) {
+    if (sources && !sources.has(sourceId)) continue;
+    if (isLegitimate(node, config)) continue;
+
+    for (const match of findScatterGather(graph, sourceId, config)) {
+      const members = [match.source, ...match.intermediaries, match.sink].sort();
+      if (!includesTouched(members, touched)) continue;
+
+      const scatteredValue = match.scattered.reduce((sum, tx) => sum + tx.amount, 0);
+      const gatheredValue = match.gathered.reduce((sum, tx) => sum + tx.amount, 0);
+      const ring: FraudRing = {
+        ring_id: ringId('scatter_gather', members),
+        member_accounts: members,
+        pattern_type: 'scatter_gather',
+        risk_score: Math.round(Math.min(100, 60 + match.intermediaries.length * 3) * 10) / 10,
+        evidence: [{
+          ...buildEvidence('scatter_gather', [...match.scattered, ...match.gathered], { hub_account: match.sink }),
+          total_value: Math.round(scatteredValue * 100) / 100,
+          source_account: match.source,
+          intermediaries: match.intermediaries,
+          value_conserved: scatteredValue > 0 ? Math.round((gatheredValue / scatteredValue) * 1000) / 1000 : 0,
+          elapsed_hours: Math.round(match.elapsedHours * 10) / 10,
+        }],
+      };
+      rings.push(ring);
+      flagRing(graph, ring);
+    }
+  }
+
+  return rings;
+}
+
+// ─── DORMANT REACTIVATION DETECTION ───
+// Walks each account's daily activity timeline for a gap of at least
+// dormant_min_gap_days inactive days followed by a burst: within
+// dormant_burst_days of the first active day, ≥ dormant_burst_min_transactions
+// transactions worth ≥ dormant_burst_min_value in and out combined. The
+// latest such reactivation forms a ring with the burst's counterparties; only
+// the reactivated account is flagged.
+// Given `touched`, only touched accounts and their counterparties are checked.
+
+export interface DormantReactivation {
+  /** Whole days without activity before the burst */
+  dormantDays: number;
+  burst: Transaction[];
+  burstValue: number;
+}
+
+export function findDormantReactivation(graph: TransactionGraph, nodeId: string, config: DetectionConfig): DormantReactivation | null {
+  const txs = visibleTransactions(graph, nodeId);
+  const timeline = buildActivityTimeline(txs, nodeId);
+
+  for (let i = timeline.length - 1; i > 0; i--) {
+    const dormantDays = Math.round((timeline[i].start - timeline[i - 1].start) / DAY_MS) - 1;
+    if (dormantDays < config.dormant_min_gap_days) continue;
+
+    const from = timeline[i].start;
+    const to = from + config.dormant_burst_days * DAY_MS;
+    const burst = txs
+      .filter(tx => tx.timestamp.getTime() >= from && tx.timestamp.getTime() < to)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const burstValue = burst.reduce((sum, tx) => sum + tx.amount, 0);
+    if (burst.length >= config.dormant_burst_min_transactions && burstValue >= config.dormant_burst_min_value) {
+      return { dormantDays, burst, burstValue };
+    }
+  }
+  return null;
+}
+
+export function detectDormantReactivation(
+  graph: TransactionGraph,
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG,
+  touched: Set<string> | null = null
+): FraudRing[] {
+  const rings: FraudRing[] = [];
+  const candidates = touched && graph.getNeighborhood(touched, 1, 'both');
+
+  for (const [nodeId, node] of graph.nodes) {
+    if (candidates && !candidates.has(nodeId)) continue;
+    if (isLegitimate(node, config)) continue;
+
+    const reactivation = findDormantReactivation(graph, nodeId, config);
+    if (!reactivation) continue;
+
+    const members = [...new Set([
+      nodeId,
+      ...reactivation.burst.map(tx => (tx.sender_id === nodeId ? tx.receiver_id : tx.sender_id)),
+    ])].sort();
+    if (!includesTouched(members, touched)) continue;
+
+    const ring: FraudRing = {
+      ring_id: ringId('dormant_reactivation', members),
+      member_accounts: members,
+      pattern_type: 'dormant_reactivation',
+      risk_score: Math.round(Math.min(100, 50 + reactivation.dormantDays / 10) * 10) / 10,
+      evidence: [{
+        ...buildEvidence('dormant_reactivation', reactivation.burst, { hub_account: nodeId }),
+        dormant_days: reactivation.dormantDays,
+      }],
+    };
+    rings.push(ring);
+    flagRing(graph, ring, [nodeId]);
+  }
+
+  return rings;
+}
+
+// ─── VELOCITY SPIKE DETECTION (robust z-scores over daily activity) ───
+// Each active day of an account with ≥ velocity_min_history_days of history is
+// compared with its previous velocity_baseline_days (idle days count as zero)
+// and with every active account-day in the graph. A day with
+// ≥ velocity_min_transactions transactions spikes when its transaction count or
+// value has a robust z-score (distance from the median in scaled MADs)
+// ≥ velocity_z_threshold against both. Consecutive spike days form one burst;
+// an account's strongest burst forms a ring with its counterparties; only the
+// account itself is flagged.
+
+export type VelocityMetric = 'transactions' | 'value';
+
+export interface RobustBaseline {
+  median: number;
+  /** MAD scaled to match a standard deviation under normality */
+  scale: number;
+}
+
+export type VelocityPopulation = Record<VelocityMetric, RobustBaseline>;
+
+export interface VelocitySpike {
+  metric: VelocityMetric;
+  burst: Transaction[];
+  /** Against the account's own baseline */
+  zScore: number;
+  /** Against all active account-days */
+  populationZScore: number;
+  /** The account's median of the metric per day before the burst */
+  baselinePerDay: number;
+}
+
+export function robustBaseline(values: number[]): RobustBaseline {
+  const center = median(values);
+  const deviations = values.map(v => Math.abs(v - center));
+  // MAD is 0 when most days tie (e.g. mostly idle); fall back to the mean
+  // absolute deviation, and never below one transaction / currency unit
+  const mad = median(deviations);
+  const scale = mad > 0 ? 1.4826 * mad : 1.2533 * deviations.reduce((sum, d) => sum + d, 0) / values.length;
+  return { median: center, scale: Math.max(scale, 1) };
+}
+
+export function computeVelocityPopulation(graph: TransactionGraph): VelocityPopulation {
+  const transactions: number[] = [];
+  const value: number[] = [];
+  for (const [id, node] of graph.nodes) {
+    if (isExcludedEntity(node)) continue;
+    for (const bucket of buildActivityTimeline(visibleTransactions(graph, id), id)) {
+      transactions.push(bucket.transactions);
+      value.push(bucket.inValue + bucket.outValue);
+    }
+  }
+  return { transactions: robustBaseline(transactions), value: robustBaseline(value) };
+}
+
+export function findVelocitySpike(
+  graph: TransactionGraph,
+  nodeId: string,
+  config: DetectionConfig,
+  population: VelocityPopulation
+): VelocitySpike | null {
+  const txs = visibleTransactions(graph, nodeId);
+  const timeline = buildActivityTimeline(txs, nodeId);
+  if (timeline.length === 0) return null;
+
+  const first = timeline[0].start;
+  const days = Math.round((timeline[timeline.length - 1].start - first) / DAY_MS) + 1;
+  const series: Record<VelocityMetric, number[]> = { transactions: new Array(days).fill(0), value: new Array(days).fill(0) };
+  for (const bucket of timeline) {
+    const day = Math.round((bucket.start - first) / DAY_MS);
+    series.transactions[day] = bucket.transactions;
+    series.value[day] = bucket.inValue + bucket.outValue;
+  }
+
+  const spikes = new Map<number, Omit<VelocitySpike, 'burst'>>();
+  for (let day = config.velocity_min_history_days; day < days; day++) {
+    if (series.transactions[day] < config.velocity_min_transactions) continue;
+    for (const metric of ['transactions', 'value'] as const) {
+      const own = robustBaseline(series[metric].slice(Math.max(0, day - config.velocity_baseline_days), day));
+      const x = series[metric][day];
+      const zScore = (x - own.median) / own.scale;
+      const populationZScore = (x - population[metric].median) / population[metric].scale;
+      if (zScore < config.velocity_z_threshold || populationZScore < config.velocity_z_threshold) continue;
+      if (!spikes.has(day) || spikes.get(day)!.zScore < zScore) {
+        spikes.set(day, { metric, zScore, populationZScore, baselinePerDay: own.median });
+      }
+    }
+  }
+  if (spikes.size === 0) return null;
+
+  // Strongest run of consecutive spike days, ranked by its peak
+  type SpikeRun = { from: number; to: number; peak: Omit<VelocitySpike, 'burst'> };
+  let best: SpikeRun | null = null;
+  let run: SpikeRun | null = null;
+  for (const day of [...spikes.keys()].sort((a, b) => a - b)) {
+    const spike = spikes.get(day)!;
+    if (run && run.to === day - 1) {
+      run.to = day;
+      if (spike.zScore > run.peak.zScore) run.peak = spike;
+    } else {
+      run = { from: day, to: day, peak: spike };
+    }
+    if (!best || run.peak.zScore > best.peak.zScore) best = run;
+  }
+
+  const from = first + best!.from * DAY_MS;
+  const to = first + (best!.to + 1) * DAY_MS;
+  const burst = txs
+    .filter(tx => tx.timestamp.getTime() >= from && tx.timestamp.getTime() < to)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  return { ...best!.peak, burst };
+}
+
+export function detectVelocitySpikes(graph: TransactionGraph, config: DetectionConfig = DEFAULT_DETECTION_CONFIG): FraudRing[] {
+  const rings: FraudRing[] = [];
+  const population = computeVelocityPopulation(graph);
+
+  for (const [nodeId, node] of graph.nodes) {
+    if (isLegitimate(node, config)) continue;
+    const spike = findVelocitySpike(graph, nodeId, config, population);
+    if (!spike) continue;
+
+    const members = [...new Set([
+      nodeId,
+      ...spike.burst.map(tx => (tx.sender_id === nodeId ? tx.receiver_id : tx.sender_id)),
+    ])].sort();
+    const ring: FraudRing = {
+      ring_id: ringId('velocity_spike', members),
+      member_accounts: members,
+      pattern_type: 'velocity_spike',
+      risk_score: Math.round(Math.min(100, 50 + Math.min(spike.zScore, 25) * 2) * 10) / 10,
+      evidence: [{
+        ...buildEvidence('velocity_spike', spike.burst, { hub_account: nodeId }),
+        velocity_metric: spike.metric,
+        z_score: Math.round(spike.zScore * 10) / 10,
+        population_z_score: Math.round(spike.populationZScore * 10) / 10,
+        baseline_per_day: Math.round(spike.baselinePerDay * 100) / 100,
+      }],
+    };
+    rings.push(ring);
+    flagRing(graph, ring, [nodeId]);
+  }
+
+  return rings;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function isLegitimate(node: GraphNode, config: DetectionConfig): boolean {
+  if (isExcludedEntity(node)) return true;
+  return exceedsVolumeThreshold(node, config);
+}
+
+function exceedsVolumeThreshold(node: GraphNode, config: DetectionConfig): boolean {
   const totalTx = node.inDegree + node.outDegree;
-  if (totalTx > 100) return true;
-  return false;
+  return config.legitimate_volume_threshold > 0 && totalTx > config.legitimate_volume_threshold;
+}
+
+/** Registry entries with action "exclude" are invisible to every detector */
+function isExcludedEntity(node: GraphNode | undefined): boolean {
+  return node?.entity?.action === 'exclude';
+}
+
+/** The account's transactions, minus those with an excluded registry entity */
+function visibleTransactions(graph: TransactionGraph, nodeId: string): Transaction[] {
+  const node = graph.nodes.get(nodeId);
+  if (!node) return [];
+  return node.transactions.filter(tx => !isExcludedEntity(graph.nodes.get(tx.sender_id === nodeId ? tx.receiver_id : tx.sender_id)));
+}
+
+// Every detector that skips accounts through isLegitimate; keep in step with them
+const VOLUME_THRESHOLD_SKIPS =
+  'not checked for fan-in/fan-out, pass-through, structuring, scatter-gather (as source or sink), ' +
+  'dormant reactivation or velocity spikes';
+
+/**
+ * Every account a detector skipped or that scoring down-weights, so the result
+ * shows what was left out and why.
+ */
+export function listExclusions(graph: TransactionGraph, config: DetectionConfig = DEFAULT_DETECTION_CONFIG): AccountExclusion[] {
+  const exclusions: AccountExclusion[] = [];
+  for (const node of graph.getNodeArray()) {
+    if (node.entity) {
+      exclusions.push({
+        account_id: node.id,
+        source: 'registry',
+        entity_type: node.entity.entity_type,
+        reason: node.entity.reason,
+        action: node.entity.action === 'exclude' ? 'excluded' : 'down_weighted',
+      });
+    } else if (exceedsVolumeThreshold(node, config)) {
+      exclusions.push({
+        account_id: node.id,
+        source: 'volume_threshold',
+        entity_type: null,
+        reason: `${node.inDegree + node.outDegree} transactions exceed legitimate_volume_threshold (${config.legitimate_volume_threshold}); ${VOLUME_THRESHOLD_SKIPS}`,
+        action: 'excluded',
+      });
+    }
+  }
+  return exclusions;
+}
+
+// ─── WATCHLIST PROXIMITY ───
+// Multi-source BFS from every watchlisted account, ignoring edge direction:
+// sending to or receiving from a bad account both count. Each account gets the
+// pattern watchlist_proximity_<hops> for its nearest watchlisted account
+// (0 = the account itself is listed). Excluded registry entities are neither
+// flagged nor traversed, so a shared payroll provider does not link everyone.
+// Produces no rings.
+
+export function detectWatchlistProximity(
+  graph: TransactionGraph,
+  watchlist: WatchlistEntry[],
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG
+): void {
+  const parent = new Map<string, string | null>();
+  const source = new Map<string, WatchlistEntry>();
+  let frontier: string[] = [];
+
+  for (const entry of watchlist) {
+    if (!graph.nodes.has(entry.account_id) || parent.has(entry.account_id)) continue;
+    parent.set(entry.account_id, null);
+    source.set(entry.account_id, entry);
+    frontier.push(entry.account_id);
+  }
+
+  for (let hops = 0; frontier.length > 0; hops++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      const node = graph.nodes.get(id)!;
+      const path = [id];
+      for (let p = parent.get(id); p; p = parent.get(p)) path.push(p);
+
+      node.watchlistHit = { entry: source.get(id)!, hops, path };
+      node.isSuspicious = true;
+      node.detectedPatterns.push(`watchlist_proximity_${hops}`);
+
+      if (hops === config.watchlist_max_hops) continue;
+      for (const neighbor of [...graph.getNeighbors(id), ...graph.getIncoming(id)]) {
+        if (parent.has(neighbor) || isExcludedEntity(graph.nodes.get(neighbor))) continue;
+        parent.set(neighbor, id);
+        source.set(neighbor, source.get(id)!);
+        next.push(neighbor);
+      }
+    }
+    frontier = next;
+  }
 }
 
 // ─── SHELL NETWORK DETECTION ───
+// Each intermediate must forward ≥ shell_min_forward_ratio of the value it
+// received along the chain, so chains that fan money apart are not relays;
+// per-hop retention and end-to-end conservation are reported as evidence.
+// Given `touched`, chains are only started upstream of those accounts, within
+// reach of a chain of shell_max_chain_length, and must pass through one.
 
-export function detectShellNetworks(graph: TransactionGraph): FraudRing[] {
+export function detectShellNetworks(
+  graph: TransactionGraph,
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG,
+  touched: Set<string> | null = null
+): FraudRing[] {
   const rings: FraudRing[] = [];
-  const MIN_HOPS = 3;
   const seenChainKeys = new Set<string>();
+  const starts = touched && graph.getNeighborhood(touched, config.shell_max_chain_length - 1, 'in');
 
   for (const [startId] of graph.nodes) {
-    const chains = findShellChains(graph, startId, MIN_HOPS);
-    
+    if (starts && !starts.has(startId)) continue;
+    const chains = findShellChains(graph, startId, config).filter(chain => includesTouched(chain, touched));
+
     for (const chain of chains) {
       const intermediates = chain.slice(1, -1);
       const allShell = intermediates.every(id => {
         const total = graph.getTotalTransactions(id);
-        return total >= 2 && total <= 3;
+        return total >= config.shell_min_transactions && total <= config.shell_max_transactions;
       });
 
-      if (allShell && hasRapidForwarding(graph, chain)) {
-        const sorted = [...chain].sort();
-        const key = sorted.join(',');
-        if (seenChainKeys.has(key)) continue;
-        seenChainKeys.add(key);
-
-        const ringId = nextRingId();
-        rings.push({
-          ring_id: ringId,
-          member_accounts: sorted,
-          pattern_type: 'shell_network',
-          risk_score: Math.round(Math.min(100, 55 + chain.length * 8) * 10) / 10,
-        });
-
-        for (const nodeId of chain) {
-          const node = graph.nodes.get(nodeId)!;
-          node.isSuspicious = true;
-          node.detectedPatterns.push('shell_network');
-          node.ringIds.push(ringId);
-        }
-      }
+      if (!allShell || !hasRapidForwarding(graph, chain, config.shell_forwarding_window_hours)) continue;
+      const conservation = chainConservation(graph, chain);
+      if (conservation.hopRetention.some(retention => 1 - retention < config.shell_min_forward_ratio)) continue;
+
+      const sorted = [...chain].sort();
+      const key = sorted.join(',');
+      if (seenChainKeys.has(key)) continue;
+      seenChainKeys.add(key);
+
+      const conserved = conservation.hopRetention.every(retention => retention <= config.shell_fee_tolerance);
+      const ring: FraudRing = {
+        ring_id: ringId('shell_network', sorted),
+        member_accounts: sorted,
+        pattern_type: 'shell_network',
+        risk_score: Math.round(Math.min(100, 55 + chain.length * 8 + (conserved ? 10 : 0)) * 10) / 10,
+        evidence: [{
+          ...buildEvidence('shell_network', pathTransactions(graph, chain, false), { path: chain }),
+          hop_retention: conservation.hopRetention.map(retention => Math.round(retention * 1000) / 1000),
+          value_conserved: Math.round(conservation.valueConserved * 1000) / 1000,
+        }],
+      };
+      rings.push(ring);
+      flagRing(graph, ring);
     }
   }
 
@@ -288,10 +1189,11 @@ export function detectShellNetworks(graph: TransactionGraph): FraudRing[] {
 function findShellChains(
   graph: TransactionGraph,
   startId: string,
-  minLen: number,
-  maxLen: number = 6
+  config: DetectionConfig
 ): string[][] {
+  const { shell_min_chain_length: minLen, shell_max_chain_length: maxLen } = config;
   const results: string[][] = [];
+  if (isExcludedEntity(graph.nodes.get(startId))) return results;
   // Iterative DFS
   const stack: { current: string; path: string[]; visited: Set<string> }[] = [];
   stack.push({ current: startId, path: [], visited: new Set() });
@@ -308,9 +1210,9 @@ function findShellChains(
 
     if (newPath.length < maxLen) {
       for (const neighbor of graph.getNeighbors(current)) {
-        if (!newVisited.has(neighbor)) {
+        if (!newVisited.has(neighbor) && !isExcludedEntity(graph.nodes.get(neighbor))) {
           const neighborTotal = graph.getTotalTransactions(neighbor);
-          if (neighborTotal <= 3 || newPath.length === 1) {
+          if (neighborTotal <= config.shell_max_transactions || newPath.length === 1) {
             stack.push({ current: neighbor, path: newPath, visited: newVisited });
           }
         }
@@ -321,15 +1223,29 @@ function findShellChains(
   return results;
 }
 
-function hasRapidForwarding(graph: TransactionGraph, chain: string[]): boolean {
+/**
+ * Share of the value each intermediate received on the chain that it did not
+ * pass on (negative when it forwarded more than it received), and the share
+ * of the first hop's value that left the last hop.
+ */
+function chainConservation(graph: TransactionGraph, chain: string[]): { hopRetention: number[]; valueConserved: number } {
+  const hopValues = chain.slice(0, -1).map((id, i) => graph.edges.get(`${id}->${chain[i + 1]}`)?.totalAmount ?? 0);
+  const hopRetention = hopValues.slice(1).map((forwarded, i) => hopValues[i] > 0 ? 1 - forwarded / hopValues[i] : 1);
+  return {
+    hopRetention,
+    valueConserved: hopValues[0] > 0 ? hopValues[hopValues.length - 1] / hopValues[0] : 0,
+  };
+}
+
+function hasRapidForwarding(graph: TransactionGraph, chain: string[], windowHours: number): boolean {
   for (let i = 0; i < chain.length - 2; i++) {
     const edge1 = graph.edges.get(`${chain[i]}->${chain[i + 1]}`);
     const edge2 = graph.edges.get(`${chain[i + 1]}->${chain[i + 2]}`);
     if (edge1 && edge2) {
       const lastIn = Math.max(...edge1.transactions.map(t => t.timestamp.getTime()));
       const firstOut = Math.min(...edge2.transactions.map(t => t.timestamp.getTime()));
-      const diffHours = (firstOut - lastIn) / (1000 * 60 * 60);
-      if (diffHours < 72) return true;
+      const diffHours = (firstOut - lastIn) / HOUR_MS;
+      if (diffHours < windowHours) return true;
     }
   }
   return false;
@@ -0,0 +1,296 @@
+import type { TransactionGraph } from './graph-engine';
+import type { DetectionConfig, FraudRing, GraphNode, RingEvidence, ScoreFactor } from './types';
+import { MAX_CYCLE_LENGTH } from './detection-config';
+import {
+  computePassThrough,
+  computeVelocityPopulation,
+  detectCycles,
+  detectDormantReactivation,
+  detectPassThrough,
+  detectScatterGather,
+  detectShellNetworks,
+  detectSmurfing,
+  detectStructuring,
+  detectVelocitySpikes,
+  findDormantReactivation,
+  findScatterGather,
+  findStructuring,
+  findVelocitySpike,
+} from './detection-engine';
+import type { StructuringMatch, VelocityPopulation } from './detection-engine';
+
+/** Colour family a detector's patterns are shown in */
+export type DetectorTone = 'danger' | 'accent' | 'primary';
+
+export interface PatternDefinition {
+  pattern_type: string;
+  /** Lower ranks are more severe; a merged ring takes its most severe pattern */
+  severity: number;
+  /** Suspicion score bonus for every account showing the pattern */
+  weight: number;
+  /** The pattern flows one way by nature, so one-direction flow is not discounted */
+  oneDirectional?: boolean;
+  /**
+   * Only the account under test (the evidence hub) is flagged; its
+   * counterparties are ring members for context but do not get the pattern
+   */
+  subjectOnly?: boolean;
+  /**
+   * Work every describe() call in a scoring pass shares (e.g. population
+   * baselines), computed once and passed to describe() as `prepared`
+   */
+  prepare?(graph: TransactionGraph, config: DetectionConfig): unknown;
+  /** Score-breakdown evidence for one flagged account */
+  describe(graph: TransactionGraph, node: GraphNode, config: DetectionConfig, prepared?: unknown): string;
+  /** Extra score factor for accounts on the path of a strong evidence entry */
+  evidenceBonus?(evidence: RingEvidence, config: DetectionConfig): ScoreFactor | null;
+}
+
+export interface DetectorContext {
+  /** Warnings surfaced in the result */
+  warnings: string[];
+  /** For incremental runs: accounts the new batch touched; rings must include one */
+  touched: Set<string> | null;
+}
+
+/**
+ * A ring detector. run() returns the rings it found and flags their members
+ * (see flagRing); the analyzer runs every registered detector in order.
+ */
+export interface DetectorPlugin {
+  id: string;
+  displayName: string;
+  tone: DetectorTone;
+  /** Progress message while the detector runs */
+  stage: string;
+  patterns: PatternDefinition[];
+  /**
+   * The detector drops rings contained in a larger ring of its own; the
+   * analyzer applies the same rule to rings carried over from a previous batch
+   */
+  dropsContainedRings?: boolean;
+  /**
+   * Results depend on the whole graph (e.g. population baselines), so
+   * incremental runs re-check every account instead of the touched ones
+   */
+  fullRerun?: boolean;
+  run(graph: TransactionGraph, config: DetectionConfig, context: DetectorContext): FraudRing[];
+}
+
+const cycleLengths = Array.from({ length: MAX_CYCLE_LENGTH - 1 }, (_, i) => i + 2);
+
+/** Every ring detector, in the order the analyzer runs them */
+export const DETECTORS: DetectorPlugin[] = [
+  {
+    id: 'cycle',
+    displayName: 'Cycles',
+    tone: 'danger',
+    stage: 'Detecting circular fund routing...',
+    dropsContainedRings: true,
+    // Longer cycles are more severe and score higher
+    patterns: cycleLengths.map(length => ({
+      pattern_type: `cycle_length_${length}`,
+      severity: 10 + MAX_CYCLE_LENGTH - length,
+      weight: 10 * (length - 1),
+      describe: () => `Part of circular fund routing through ${length} accounts`,
+    })),
+    run: (graph, config, { warnings, touched }) => detectCycles(graph, config, warnings, touched),
+  },
+  {
+    id: 'smurfing',
+    displayName: 'Smurfing',
+    tone: 'accent',
+    stage: 'Detecting smurfing patterns...',
+    patterns: [
+      {
+        pattern_type: 'fan_in_72h',
+        severity: 20,
+        weight: 35,
+        oneDirectional: true,
+        describe: (graph, node, config) =>
+          `${graph.getIncoming(node.id).length} distinct senders; ≥ ${config.smurfing_min_counterparties} within a ${config.smurfing_window_hours}h window`,
+      },
+      {
+        pattern_type: 'fan_out_72h',
+        severity: 21,
+        weight: 35,
+        oneDirectional: true,
+        describe: (graph, node, config) =>
+          `${graph.getNeighbors(node.id).length} distinct receivers; ≥ ${config.smurfing_min_counterparties} within a ${config.smurfing_window_hours}h window`,
+      },
+    ],
+    run: (graph, config, { touched }) => detectSmurfing(graph, config, touched),
+  },
+  {
+    id: 'shell',
+    displayName: 'Shell',
+    tone: 'primary',
+    stage: 'Detecting shell networks...',
+    patterns: [
+      {
+        pattern_type: 'shell_network',
+        severity: 0,
+        weight: 25,
+        describe: (graph, node) =>
+          `Node in a layered chain of low-activity accounts (${graph.getTotalTransactions(node.id)} transactions here)`,
+        // A clean relay, every hop skimming at most a fee, is stronger evidence than a leaky chain
+        evidenceBonus: (evidence, config) =>
+          evidence.hop_retention?.every(retention => retention <= config.shell_fee_tolerance)
+            ? {
+              factor: 'value_conserved',
+              delta: 10,
+              evidence: `Shell chain ${evidence.path!.join(' → ')} passed on ${Math.round(evidence.value_conserved! * 100)}% ` +
+                `of its value, each hop keeping ≤ ${Math.round(config.shell_fee_tolerance * 100)}%`,
+            }
+            : null,
+      },
+    ],
+    run: (graph, config, { touched }) => detectShellNetworks(graph, config, touched),
+  },
+  {
+    id: 'pass_through',
+    displayName: 'Pass-through',
+    tone: 'accent',
+    stage: 'Detecting pass-through accounts...',
+    patterns: [
+      {
+        pattern_type: 'pass_through',
+        severity: 18,
+        weight: 30,
+        subjectOnly: true,
+        describe: (graph, node, config) => {
+          const stats = computePassThrough(graph, node.id, config)!;
+          return `Forwarded ${Math.round(stats.ratio * 100)}% of inbound value within ${config.pass_through_max_dwell_hours}h ` +
+            `(median dwell ${stats.medianDwellHours.toFixed(1)}h)`;
+        },
+      },
+    ],
+    run: (graph, config, { touched }) => detectPassThrough(graph, config, touched),
+  },
+  {
+    id: 'structuring',
+    displayName: 'Structuring',
+    tone: 'danger',
+    stage: 'Detecting structuring...',
+    patterns: [
+      {
+        pattern_type: 'structuring',
+        severity: 19,
+        weight: 30,
+        subjectOnly: true,
+        describe: (graph, node, config) =>
+          findStructuring(graph, node.id, config).map(match => describeStructuring(match, config)).join('; '),
+      },
+    ],
+    run: (graph, config, { touched }) => detectStructuring(graph, config, touched),
+  },
+  {
+    id: 'scatter_gather',
+    displayName: 'Scatter-gather',
+    tone: 'primary',
+    stage: 'Detecting scatter-gather layering...',
+    patterns: [
+      {
+        pattern_type: 'scatter_gather',
+        severity: 5,
+        weight: 35,
+        describe: (graph, node, config) => {
+          const matches = findScatterGather(graph, node.id, config);
+          return matches.length > 0
+            ? matches.map(m => `Scattered funds through ${m.intermediaries.length} intermediaries to ${m.sink} ` +
+                `within ${m.elapsedHours.toFixed(1)}h`).join('; ')
+            : 'Intermediary or collector in a scatter-gather layering pattern';
+        },
+      },
+    ],
+    run: (graph, config, { touched }) => detectScatterGather(graph, config, touched),
+  },
+  {
+    id: 'dormant',
+    displayName: 'Dormant',
+    tone: 'accent',
+    stage: 'Detecting dormant account reactivation...',
+    patterns: [
+      {
+        pattern_type: 'dormant_reactivation',
+        severity: 22,
+        weight: 25,
+        subjectOnly: true,
+        describe: (graph, node, config) => {
+          const reactivation = findDormantReactivation(graph, node.id, config)!;
+          return `Inactive for ${reactivation.dormantDays} days, then ${reactivation.burst.length} transactions worth ` +
+            `${Math.round(reactivation.burstValue)} within ${config.dormant_burst_days} days`;
+        },
+      },
+    ],
+    run: (graph, config, { touched }) => detectDormantReactivation(graph, config, touched),
+  },
+  {
+    id: 'velocity',
+    displayName: 'Velocity',
+    tone: 'danger',
+    stage: 'Detecting velocity spikes...',
+    fullRerun: true,
+    patterns: [
+      {
+        pattern_type: 'velocity_spike',
+        severity: 23,
+        weight: 25,
+        subjectOnly: true,
+        prepare: graph => computeVelocityPopulation(graph),
+        describe: (graph, node, config, population) => {
+          const spike = findVelocitySpike(graph, node.id, config, population as VelocityPopulation)!;
+          const peak = spike.metric === 'transactions' ? 'transaction count' : 'value';
+          return `${spike.burst.length} transactions in a burst; peak-day ${peak} is ${spike.zScore.toFixed(1)} robust SDs above ` +
+            `its ${config.velocity_baseline_days}-day baseline (median ${spike.baselinePerDay.toFixed(1)}/day) and ` +
+            `${spike.populationZScore.toFixed(1)} above all accounts`;
+        },
+      },
+    ],
+    run: (graph, config) => detectVelocitySpikes(graph, config),
+  },
+];
+
+function describeStructuring(match: StructuringMatch, config: DetectionConfig): string {
+  const flows = match.direction === 'incoming' ? 'receipts' : 'payments';
+  const window = `within ${config.structuring_window_hours}h`;
+  if (match.signal === 'sub_threshold') {
+    return `${match.transactions.length} ${flows} just below ${config.structuring_threshold} ${window}`;
+  }
+  if (match.signal === 'round_amounts') {
+    return `${match.transactions.length} round-amount ${flows} below ${config.structuring_threshold} ${window}`;
+  }
+  return `${match.transfer!.amount} ${match.direction === 'incoming' ? 'payment gathered from' : 'receipt split into'} ` +
+    `${match.transactions.length - 1} smaller ${flows}`;
+}
+
+const detectorByPattern = new Map<string, DetectorPlugin>();
+const patternByType = new Map<string, PatternDefinition>();
+for (const detector of DETECTORS) {
+  for (const pattern of detector.patterns) {
+    if (patternByType.has(pattern.pattern_type)) {
+      throw new Error(`Pattern ${pattern.pattern_type} is registered by more than one detector`);
+    }
+    detectorByPattern.set(pattern.pattern_type, detector);
+    patternByType.set(pattern.pattern_type, pattern);
+  }
+}
+
+/** The detector that reports a pattern, or undefined for unregistered patterns */
+export function detectorForPattern(patternType: string): DetectorPlugin | undefined {
+  return detectorByPattern.get(patternType);
+}
+
+export function getPatternDefinition(patternType: string): PatternDefinition | undefined {
+  return patternByType.get(patternType);
+}
+
+/** Ring members a ring flags: just its subject for subject-only patterns */
+export function flaggedMembers(ring: FraudRing): string[] {
+  return getPatternDefinition(ring.pattern_type)?.subjectOnly ? [ring.evidence[0].hub_account] : ring.member_accounts;
+}
+
+/** Severity rank of a pattern; unregistered patterns rank below every registered one */
+export function patternSeverity(patternType: string): number {
+  return patternByType.get(patternType)?.severity ?? Infinity;
+}
@@ -0,0 +1,44 @@
+import Papa from 'papaparse';
+import type { EntityType, RegisteredEntity } from './types';
+
+export const ENTITY_TYPES: EntityType[] = ['payroll', 'merchant', 'exchange', 'government', 'other'];
+
+const REGISTRY_COLUMNS = ['account_id', 'entity_type', 'reason'];
+
+/**
+ * Parse a registry CSV with columns account_id, entity_type, reason and an
+ * optional action (exclude | down_weight, default exclude). Any bad row fails
+ * the whole file: a silently dropped allowlist entry would change results.
+ */
+export function parseEntityRegistry(text: string): RegisteredEntity[] {
+  const { data, meta } = Papa.parse<Record<string, string>>(text.trim(), { header: true, skipEmptyLines: true });
+  const missing = REGISTRY_COLUMNS.filter(col => !meta.fields?.includes(col));
+  if (missing.length > 0) throw new Error(`Entity registry missing columns: ${missing.join(', ')}`);
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const entities: RegisteredEntity[] = [];
+
+  data.forEach((row, i) => {
+    const line = i + 2;
+    const accountId = row.account_id?.trim();
+    const entityType = row.entity_type?.trim().toLowerCase() as EntityType;
+    const reason = row.reason?.trim();
+    const action = row.action?.trim().toLowerCase() || 'exclude';
+
+    if (!accountId) return errors.push(`line ${line}: missing account_id`);
+    if (!ENTITY_TYPES.includes(entityType)) {
+      return errors.push(`line ${line}: entity_type must be one of ${ENTITY_TYPES.join(', ')}`);
+    }
+    if (!reason) return errors.push(`line ${line}: missing reason`);
+    if (action !== 'exclude' && action !== 'down_weight') {
+      return errors.push(`line ${line}: action must be exclude or down_weight`);
+    }
+    if (seen.has(accountId)) return errors.push(`line ${line}: duplicate account_id ${accountId}`);
+    seen.add(accountId);
+    entities.push({ account_id: accountId, entity_type: entityType, reason, action });
+  });
+
+  if (errors.length > 0) throw new Error(`Invalid entity registry:\n${errors.join('\n')}`);
+  return entities;
+}
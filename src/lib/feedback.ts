@@ -0,0 +1,81 @@
+import type { AccountDisposition, DetectionConfig } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface FeedbackIndex {
+  /**
+   * The false-positive disposition that clears an account flagged for these
+   * patterns, or null. An account only counts as cleared when every pattern it
+   * is flagged for was cleared; a new pattern is new evidence.
+   */
+  clearanceFor(accountId: string, patterns: string[]): AccountDisposition | null;
+}
+
+/**
+ * Index unexpired dispositions by account. For each account/pattern only the
+ * latest decision counts, so confirming an account after clearing it undoes
+ * the clearance.
+ */
+export function createFeedbackIndex(
+  dispositions: AccountDisposition[],
+  config: DetectionConfig,
+  asOf: Date = new Date()
+): FeedbackIndex {
+  const cutoff = asOf.getTime() - config.feedback_expiry_days * DAY_MS;
+  const latest = new Map<string, Map<string | null, AccountDisposition>>();
+
+  for (const d of dispositions) {
+    const decided = new Date(d.decided_at).getTime();
+    if (isNaN(decided) || decided < cutoff) continue;
+
+    let byPattern = latest.get(d.account_id);
+    if (!byPattern) {
+      byPattern = new Map();
+      latest.set(d.account_id, byPattern);
+    }
+    const existing = byPattern.get(d.pattern_type);
+    if (!existing || new Date(existing.decided_at).getTime() < decided) byPattern.set(d.pattern_type, d);
+  }
+
+  return {
+    clearanceFor(accountId, patterns) {
+      const byPattern = latest.get(accountId);
+      if (!byPattern) return null;
+
+      const all = byPattern.get(null);
+      const clearances: AccountDisposition[] = [];
+      for (const pattern of patterns) {
+        // Of a pattern-specific and a blanket decision the newer one counts;
+        // on a tie the pattern-specific one does
+        const specific = byPattern.get(pattern);
+        const decision = specific && all ? newer(specific, all) : specific ?? all;
+        if (!decision || decision.disposition !== 'false_positive') return null;
+        clearances.push(decision);
+      }
+      if (clearances.length === 0) return null;
+      return clearances.reduce((a, b) => newer(a, b));
+    },
+  };
+}
+
+/** The later of two decisions, preferring the first on a tie */
+function newer(a: AccountDisposition, b: AccountDisposition): AccountDisposition {
+  return new Date(a.decided_at).getTime() >= new Date(b.decided_at).getTime() ? a : b;
+}
+
+/** Dispositions from untrusted JSON (CLI file, database rows). Throws on malformed input. */
+export function parseDispositions(data: unknown): AccountDisposition[] {
+  if (!Array.isArray(data)) throw new Error('Dispositions must be a JSON array');
+  return data.map((d, i) => {
+    const { account_id, pattern_type = null, disposition, decided_at } = (d ?? {}) as Partial<AccountDisposition>;
+    if (typeof account_id !== 'string' || !account_id) throw new Error(`Disposition ${i}: missing account_id`);
+    if (pattern_type !== null && typeof pattern_type !== 'string') throw new Error(`Disposition ${i}: pattern_type must be a string or null`);
+    if (disposition !== 'false_positive' && disposition !== 'confirmed') {
+      throw new Error(`Disposition ${i}: disposition must be "false_positive" or "confirmed"`);
+    }
+    if (typeof decided_at !== 'string' || isNaN(new Date(decided_at).getTime())) {
+      throw new Error(`Disposition ${i}: invalid decided_at`);
+    }
+    return { account_id, pattern_type, disposition, decided_at };
+  });
+}
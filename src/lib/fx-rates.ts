@@ -0,0 +1,133 @@
+import Papa from 'papaparse';
+
+export const DEFAULT_REPORTING_CURRENCY = 'USD';
+
+/**
+ * Daily FX rates against a single base currency.
+ * `rates[date][currency]` is units of `currency` per 1 unit of `base`.
+ * Kept as plain objects so the table can be posted to the analysis worker.
+ */
+export interface FxRateTable {
+  base: string;
+  rates: Record<string, Record<string, number>>;
+}
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+export function normalizeCurrency(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function isCurrencyCode(code: string): boolean {
+  return CURRENCY_CODE.test(code);
+}
+
+/**
+ * Parse a rate table from JSON (`{ base, rates: { "YYYY-MM-DD": { EUR: 0.92 } } }`)
+ * or CSV with columns date, base, currency, rate.
+ */
+export function parseFxRates(text: string, format: 'csv' | 'json'): FxRateTable {
+  const table = format === 'json' ? parseJsonRates(text) : parseCsvRates(text);
+  validateFxTable(table);
+  return table;
+}
+
+function parseJsonRates(text: string): FxRateTable {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('FX rate file is not valid JSON');
+  }
+  const { base, rates } = (data ?? {}) as Partial<FxRateTable>;
+  if (typeof base !== 'string' || typeof rates !== 'object' || rates === null) {
+    throw new Error('FX rate JSON must have "base" and "rates" fields');
+  }
+  const table: FxRateTable = { base: normalizeCurrency(base), rates: {} };
+  for (const [date, byCurrency] of Object.entries(rates)) {
+    table.rates[date] = {};
+    for (const [currency, rate] of Object.entries(byCurrency ?? {})) {
+      table.rates[date][normalizeCurrency(currency)] = Number(rate);
+    }
+  }
+  return table;
+}
+
+function parseCsvRates(text: string): FxRateTable {
+  const { data, meta } = Papa.parse<Record<string, string>>(text.trim(), { header: true, skipEmptyLines: true });
+  const missing = ['date', 'base', 'currency', 'rate'].filter(col => !meta.fields?.includes(col));
+  if (missing.length > 0) throw new Error(`FX rate CSV missing columns: ${missing.join(', ')}`);
+
+  let base: string | null = null;
+  const rates: FxRateTable['rates'] = {};
+  data.forEach((row, i) => {
+    const rowBase = normalizeCurrency(row.base ?? '');
+    if (base === null) base = rowBase;
+    else if (rowBase !== base) throw new Error(`FX rate CSV row ${i + 2}: base ${rowBase} differs from ${base}`);
+    const date = (row.date ?? '').trim();
+    (rates[date] ??= {})[normalizeCurrency(row.currency ?? '')] = parseFloat(row.rate);
+  });
+  if (base === null) throw new Error('FX rate CSV is empty');
+  return { base, rates };
+}
+
+function validateFxTable(table: FxRateTable) {
+  if (!isCurrencyCode(table.base)) throw new Error(`Invalid FX base currency "${table.base}"`);
+  for (const [date, byCurrency] of Object.entries(table.rates)) {
+    if (!DATE_KEY.test(date)) throw new Error(`Invalid FX rate date "${date}" (expected YYYY-MM-DD)`);
+    for (const [currency, rate] of Object.entries(byCurrency)) {
+      if (!isCurrencyCode(currency)) throw new Error(`Invalid currency code "${currency}" on ${date}`);
+      if (!Number.isFinite(rate) || rate <= 0) throw new Error(`Invalid FX rate for ${currency} on ${date}`);
+    }
+  }
+}
+
+/** Local calendar date, matching how CSV timestamps without a zone are parsed. */
+function dateKey(date: Date): string {
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${m}-${d}`;
+}
+
+/**
+ * Build a converter into `reportingCurrency`. Uses the rate for the
+ * transaction date, falling back to the most recent earlier date (weekends,
+ * holidays). Returns null when no usable rate exists.
+ */
+export function createFxConverter(table: FxRateTable | null, reportingCurrency: string) {
+  const dates = table ? Object.keys(table.rates).sort() : [];
+
+  const rateOn = (currency: string, key: string): number | null => {
+    if (!table) return null;
+    if (currency === table.base) return 1;
+    // Binary search for the last date ≤ key, then walk back until the currency is quoted
+    let lo = 0, hi = dates.length - 1, idx = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (dates[mid] <= key) { idx = mid; lo = mid + 1; } else hi = mid - 1;
+    }
+    for (let i = idx; i >= 0; i--) {
+      const rate = table.rates[dates[i]][currency];
+      if (rate !== undefined) return rate;
+    }
+    return null;
+  };
+
+  return (amount: number, currency: string, date: Date): number | null => {
+    if (currency === reportingCurrency) return amount;
+    const key = dateKey(date);
+    const from = rateOn(currency, key);
+    const to = rateOn(reportingCurrency, key);
+    if (from === null || to === null) return null;
+    return Math.round((amount / from) * to * 100) / 100;
+  };
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 2 }).format(amount);
+  } catch {
+    return `${amount.toLocaleString()} ${currency}`;
+  }
+}
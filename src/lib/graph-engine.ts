@@ -1,4 +1,6 @@
-import type { Transaction, GraphNode, GraphEdge } from './types';
+import type { Transaction, GraphNode, GraphEdge, ActivityBucket } from './types';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
 
 export class TransactionGraph {
   nodes: Map<string, GraphNode> = new Map();
@@ -7,22 +9,29 @@ export class TransactionGraph {
   reverseAdjacency: Map<string, Set<string>> = new Map();
 
   constructor(transactions: Transaction[]) {
-    this.build(transactions);
+    this.addTransactions(transactions);
   }
 
-  private build(transactions: Transaction[]) {
+  /** Add a batch to the graph in place; returns the accounts it touched. */
+  addTransactions(transactions: Transaction[]): Set<string> {
+    const touched = new Set<string>();
     for (const tx of transactions) {
+      touched.add(tx.sender_id);
+      touched.add(tx.receiver_id);
+
       this.ensureNode(tx.sender_id);
       this.ensureNode(tx.receiver_id);
 
       const senderNode = this.nodes.get(tx.sender_id)!;
       senderNode.outDegree++;
       senderNode.totalOut += tx.amount;
+      if (tx.currency) addByCurrency(senderNode.totalOutByCurrency, tx);
       senderNode.transactions.push(tx);
 
       const receiverNode = this.nodes.get(tx.receiver_id)!;
       receiverNode.inDegree++;
       receiverNode.totalIn += tx.amount;
+      if (tx.currency) addByCurrency(receiverNode.totalInByCurrency, tx);
       receiverNode.transactions.push(tx);
 
       const edgeKey = `${tx.sender_id}->${tx.receiver_id}`;
@@ -32,12 +41,14 @@ export class TransactionGraph {
           target: tx.receiver_id,
           transactions: [],
           totalAmount: 0,
+          totalAmountByCurrency: {},
           count: 0,
         });
       }
       const edge = this.edges.get(edgeKey)!;
       edge.transactions.push(tx);
       edge.totalAmount += tx.amount;
+      if (tx.currency) addByCurrency(edge.totalAmountByCurrency, tx);
       edge.count++;
 
       if (!this.adjacency.has(tx.sender_id)) this.adjacency.set(tx.sender_id, new Set());
@@ -46,6 +57,7 @@ export class TransactionGraph {
       if (!this.reverseAdjacency.has(tx.receiver_id)) this.reverseAdjacency.set(tx.receiver_id, new Set());
       this.reverseAdjacency.get(tx.receiver_id)!.add(tx.sender_id);
     }
+    return touched;
   }
 
   private ensureNode(id: string) {
@@ -56,9 +68,14 @@ export class TransactionGraph {
         outDegree: 0,
         totalIn: 0,
         totalOut: 0,
+        totalInByCurrency: {},
+        totalOutByCurrency: {},
         transactions: [],
         isSuspicious: false,
         suspicionScore: 0,
+        scoreBreakdown: [],
+        entity: null,
+        watchlistHit: null,
         detectedPatterns: [],
         ringIds: [],
       });
@@ -73,6 +90,42 @@ export class TransactionGraph {
     return Array.from(this.reverseAdjacency.get(nodeId) || []);
   }
 
+  /**
+   * Accounts within `hops` edges of any seed, seeds included. 'out' follows
+   * money forward, 'in' backward, 'both' ignores direction.
+   */
+  getNeighborhood(seeds: Iterable<string>, hops: number, direction: 'out' | 'in' | 'both'): Set<string> {
+    const reached = new Set<string>();
+    let frontier: string[] = [];
+    for (const id of seeds) {
+      if (this.nodes.has(id) && !reached.has(id)) {
+        reached.add(id);
+        frontier.push(id);
+      }
+    }
+    for (let depth = 0; depth < hops && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        const adjacent = direction === 'out' ? this.getNeighbors(id)
+          : direction === 'in' ? this.getIncoming(id)
+          : [...this.getNeighbors(id), ...this.getIncoming(id)];
+        for (const neighbor of adjacent) {
+          if (reached.has(neighbor)) continue;
+          reached.add(neighbor);
+          next.push(neighbor);
+        }
+      }
+      frontier = next;
+    }
+    return reached;
+  }
+
+  /** The account's activity over time, in buckets of `bucketMs` (daily by default) */
+  getActivityTimeline(nodeId: string, bucketMs = DAY_MS): ActivityBucket[] {
+    const node = this.nodes.get(nodeId);
+    return node ? buildActivityTimeline(node.transactions, nodeId, bucketMs) : [];
+  }
+
   getNodeArray(): GraphNode[] {
     return Array.from(this.nodes.values());
   }
@@ -85,4 +138,82 @@ export class TransactionGraph {
     const node = this.nodes.get(nodeId);
     return node ? node.inDegree + node.outDegree : 0;
   }
+
+  /** Strongly connected components (iterative Tarjan), in reverse topological order. */
+  getStronglyConnectedComponents(): string[][] {
+    const indices = new Map<string, number>();
+    const low = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+    let nextIndex = 0;
+
+    for (const root of this.nodes.keys()) {
+      if (indices.has(root)) continue;
+      const work: { node: string; neighbors: string[]; i: number }[] = [];
+
+      const visit = (id: string) => {
+        indices.set(id, nextIndex);
+        low.set(id, nextIndex);
+        nextIndex++;
+        stack.push(id);
+        onStack.add(id);
+        work.push({ node: id, neighbors: this.getNeighbors(id), i: 0 });
+      };
+      visit(root);
+
+      while (work.length > 0) {
+        const frame = work[work.length - 1];
+        if (frame.i < frame.neighbors.length) {
+          const next = frame.neighbors[frame.i++];
+          if (!indices.has(next)) visit(next);
+          else if (onStack.has(next)) low.set(frame.node, Math.min(low.get(frame.node)!, indices.get(next)!));
+          continue;
+        }
+
+        work.pop();
+        if (work.length > 0) {
+          const parent = work[work.length - 1].node;
+          low.set(parent, Math.min(low.get(parent)!, low.get(frame.node)!));
+        }
+        if (low.get(frame.node) === indices.get(frame.node)) {
+          const component: string[] = [];
+          let member: string;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+          } while (member !== frame.node);
+          components.push(component);
+        }
+      }
+    }
+
+    return components;
+  }
+}
+
+/**
+ * Bucket an account's transactions by time, oldest first. Buckets are aligned
+ * to multiples of `bucketMs` since the epoch and only active ones are listed.
+ */
+export function buildActivityTimeline(transactions: Transaction[], accountId: string, bucketMs = DAY_MS): ActivityBucket[] {
+  const buckets = new Map<number, ActivityBucket>();
+  for (const tx of transactions) {
+    const start = Math.floor(tx.timestamp.getTime() / bucketMs) * bucketMs;
+    let bucket = buckets.get(start);
+    if (!bucket) {
+      bucket = { start, transactions: 0, inValue: 0, outValue: 0 };
+      buckets.set(start, bucket);
+    }
+    bucket.transactions++;
+    if (tx.receiver_id === accountId) bucket.inValue += tx.amount;
+    if (tx.sender_id === accountId) bucket.outValue += tx.amount;
+  }
+  return [...buckets.values()].sort((a, b) => a.start - b.start);
+}
+
+function addByCurrency(totals: Record<string, number>, tx: Transaction) {
+  const currency = tx.currency!;
+  totals[currency] = (totals[currency] || 0) + (tx.original_amount ?? tx.amount);
 }
@@ -0,0 +1,113 @@
+import Papa from 'papaparse';
+import { diffRings } from './ring-diff';
+import type { DetectionResult, FraudRing } from './types';
+
+// Comparison of two detection results, e.g. a rerun after tuning or with new
+// data. Rings are matched by membership (see ring-diff.ts); accounts by ID.
+
+export const DEFAULT_SCORE_THRESHOLD = 10;
+
+export type RingChangeKind = 'new' | 'disappeared' | 'grown' | 'shrunk' | 'changed';
+
+export interface RingComparison {
+  change: RingChangeKind;
+  before: FraudRing | null;
+  after: FraudRing | null;
+  added_members: string[];
+  removed_members: string[];
+}
+
+export interface ScoreChange {
+  account_id: string;
+  /** null when the account was not flagged in that run */
+  before: number | null;
+  after: number | null;
+  delta: number;
+}
+
+export interface ResultComparison {
+  rings: RingComparison[];
+  unchanged_rings: number;
+  /** Accounts whose suspicion_score moved by more than score_threshold */
+  score_changes: ScoreChange[];
+  score_threshold: number;
+}
+
+export function compareResults(
+  before: DetectionResult,
+  after: DetectionResult,
+  scoreThreshold = DEFAULT_SCORE_THRESHOLD
+): ResultComparison {
+  const diff = diffRings(before.fraud_rings, after.fraud_rings);
+
+  const rings: RingComparison[] = [
+    ...diff.new_rings.map(ring => ({
+      change: 'new' as const, before: null, after: ring, added_members: ring.member_accounts, removed_members: [],
+    })),
+    ...diff.resolved_rings.map(ring => ({
+      change: 'disappeared' as const, before: ring, after: null, added_members: [], removed_members: ring.member_accounts,
+    })),
+    ...diff.changed_rings.map(({ previous, current, added_members, removed_members }) => {
+      const growth = current.member_accounts.length - previous.member_accounts.length;
+      const change: RingChangeKind = growth > 0 ? 'grown' : growth < 0 ? 'shrunk' : 'changed';
+      return { change, before: previous, after: current, added_members, removed_members };
+    }),
+  ];
+
+  const beforeScores = new Map(before.suspicious_accounts.map(a => [a.account_id, a.suspicion_score]));
+  const afterScores = new Map(after.suspicious_accounts.map(a => [a.account_id, a.suspicion_score]));
+  const score_changes: ScoreChange[] = [];
+  for (const accountId of new Set([...beforeScores.keys(), ...afterScores.keys()])) {
+    const was = beforeScores.get(accountId) ?? null;
+    const now = afterScores.get(accountId) ?? null;
+    const delta = Math.round(((now ?? 0) - (was ?? 0)) * 10) / 10;
+    if (Math.abs(delta) > scoreThreshold) score_changes.push({ account_id: accountId, before: was, after: now, delta });
+  }
+  score_changes.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.account_id.localeCompare(b.account_id));
+
+  return { rings, unchanged_rings: diff.unchanged_rings, score_changes, score_threshold: scoreThreshold };
+}
+
+/** Rings only, without evidence, so the export stays readable */
+export function comparisonToJSON(comparison: ResultComparison): string {
+  const brief = (ring: FraudRing | null) => ring && {
+    ring_id: ring.ring_id,
+    pattern_type: ring.pattern_type,
+    risk_score: ring.risk_score,
+    member_accounts: ring.member_accounts,
+  };
+  return JSON.stringify({
+    ...comparison,
+    rings: comparison.rings.map(r => ({ ...r, before: brief(r.before), after: brief(r.after) })),
+  }, null, 2);
+}
+
+/** One row per ring change; member lists are space-separated */
+export function ringComparisonToCSV(comparison: ResultComparison): string {
+  return Papa.unparse({
+    fields: [
+      'change', 'ring_id_before', 'ring_id_after', 'pattern_before', 'pattern_after',
+      'risk_before', 'risk_after', 'members_before', 'members_after', 'added_members', 'removed_members',
+    ],
+    data: comparison.rings.map(({ change, before, after, added_members, removed_members }) => [
+      change,
+      before?.ring_id ?? '',
+      after?.ring_id ?? '',
+      before?.pattern_type ?? '',
+      after?.pattern_type ?? '',
+      before?.risk_score ?? '',
+      after?.risk_score ?? '',
+      before?.member_accounts.join(' ') ?? '',
+      after?.member_accounts.join(' ') ?? '',
+      added_members.join(' '),
+      removed_members.join(' '),
+    ]),
+  });
+}
+
+export function scoreChangesToCSV(comparison: ResultComparison): string {
+  return Papa.unparse({
+    fields: ['account_id', 'score_before', 'score_after', 'delta'],
+    data: comparison.score_changes.map(c => [c.account_id, c.before ?? '', c.after ?? '', c.delta]),
+  });
+}
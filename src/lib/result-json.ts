@@ -0,0 +1,17 @@
+import type { DetectionResult } from './types';
+
+/**
+ * The JSON document users download: the required output fields plus the
+ * config that produced them and the accounts it excluded. Shared by the UI
+ * download button and the CLI so both write byte-identical files.
+ */
+export function resultToJSON(result: DetectionResult): string {
+  const output = {
+    suspicious_accounts: result.suspicious_accounts,
+    fraud_rings: result.fraud_rings,
+    summary: result.summary,
+    config: result.config,
+    exclusions: result.exclusions,
+  };
+  return JSON.stringify(output, null, 2);
+}
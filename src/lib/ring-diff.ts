@@ -0,0 +1,64 @@
+import type { FraudRing, RingDiff } from './types';
+
+/**
+ * Compare two runs' rings. A ring's ID changes with its membership, so rings
+ * are matched by membership instead: a pair is a candidate when they share at least half
+ * of the smaller ring's members (the same rule the ring merger uses), and
+ * candidates are paired one-to-one, most similar (Jaccard) first. A matched
+ * pair counts as changed when its members, pattern or risk score differ.
+ */
+export function diffRings(previous: FraudRing[], current: FraudRing[]): RingDiff {
+  const ringsByMember = new Map<string, number[]>();
+  previous.forEach((ring, i) => {
+    for (const member of ring.member_accounts) {
+      if (!ringsByMember.has(member)) ringsByMember.set(member, []);
+      ringsByMember.get(member)!.push(i);
+    }
+  });
+
+  const candidates: { prev: number; curr: number; similarity: number }[] = [];
+  current.forEach((ring, curr) => {
+    const shared = new Map<number, number>();
+    for (const member of ring.member_accounts) {
+      for (const prev of ringsByMember.get(member) ?? []) shared.set(prev, (shared.get(prev) ?? 0) + 1);
+    }
+    for (const [prev, overlap] of shared) {
+      const prevSize = previous[prev].member_accounts.length;
+      const currSize = ring.member_accounts.length;
+      if (overlap / Math.min(prevSize, currSize) < 0.5) continue;
+      candidates.push({ prev, curr, similarity: overlap / (prevSize + currSize - overlap) });
+    }
+  });
+  candidates.sort((a, b) => b.similarity - a.similarity || a.prev - b.prev || a.curr - b.curr);
+
+  const matchedPrev = new Set<number>();
+  const matchOf = new Map<number, number>();
+  for (const { prev, curr } of candidates) {
+    if (matchedPrev.has(prev) || matchOf.has(curr)) continue;
+    matchedPrev.add(prev);
+    matchOf.set(curr, prev);
+  }
+
+  const diff: RingDiff = { new_rings: [], changed_rings: [], resolved_rings: [], unchanged_rings: 0 };
+  current.forEach((ring, curr) => {
+    const prev = matchOf.get(curr);
+    if (prev === undefined) {
+      diff.new_rings.push(ring);
+      return;
+    }
+    const before = previous[prev];
+    const beforeMembers = new Set(before.member_accounts);
+    const afterMembers = new Set(ring.member_accounts);
+    const added = ring.member_accounts.filter(m => !beforeMembers.has(m));
+    const removed = before.member_accounts.filter(m => !afterMembers.has(m));
+    if (added.length === 0 && removed.length === 0 &&
+        before.pattern_type === ring.pattern_type && before.risk_score === ring.risk_score) {
+      diff.unchanged_rings++;
+      return;
+    }
+    diff.changed_rings.push({ previous: before, current: ring, added_members: added, removed_members: removed });
+  });
+  diff.resolved_rings = previous.filter((_, i) => !matchedPrev.has(i));
+
+  return diff;
+}
@@ -0,0 +1,26 @@
+/**
+ * Deterministic ring identifier derived from the pattern and the member set,
+ * so the same ring gets the same ID on every run regardless of input row
+ * order, and concurrent analyses never share state. A ring whose membership
+ * or pattern changes gets a new ID.
+ */
+export function ringId(patternType: string, members: Iterable<string>): string {
+  const canonical = `${patternType}:${[...new Set(members)].sort().join(',')}`;
+  return `RING_${hash53(canonical).toString(16).padStart(14, '0')}`;
+}
+
+// cyrb53: a fast 53-bit string hash; collisions are negligible at ring counts
+function hash53(text: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
@@ -1,10 +1,14 @@
 import type { FraudRing } from './types';
+import { ringId } from './ring-id';
+import { patternSeverity } from './detector-registry';
 
 /**
  * Deduplicate and merge fraud rings:
  * 1. Remove exact duplicate member sets (across detectors)
  * 2. Remove subset rings (A ⊂ B → discard A)
  * 3. Merge rings sharing ≥ 50% member overlap using union-find for transitive closure
+ * Evidence from every discarded or merged ring is carried into the ring that absorbs it.
+ * Merged rings get content-derived IDs (see ring-id.ts).
  */
 export function mergeOverlappingRings(rings: FraudRing[]): FraudRing[] {
   if (rings.length === 0) return [];
@@ -14,8 +18,14 @@ export function mergeOverlappingRings(rings: FraudRing[]): FraudRing[] {
   for (const ring of rings) {
     const key = [...ring.member_accounts].sort().join(',');
     const existing = uniqueMap.get(key);
-    if (!existing || SEVERITY_RANK[ring.pattern_type] < SEVERITY_RANK[existing.pattern_type]) {
-      uniqueMap.set(key, { ...ring, member_accounts: [...ring.member_accounts].sort() });
+    if (!existing || patternSeverity(ring.pattern_type) < patternSeverity(existing.pattern_type)) {
+      uniqueMap.set(key, {
+        ...ring,
+        member_accounts: [...ring.member_accounts].sort(),
+        evidence: [...(existing?.evidence ?? []), ...ring.evidence],
+      });
+    } else {
+      existing.evidence = [...existing.evidence, ...ring.evidence];
     }
   }
   let deduped = Array.from(uniqueMap.values());
@@ -34,6 +44,18 @@ export function mergeOverlappingRings(rings: FraudRing[]): FraudRing[] {
       }
     }
   }
+  // Hand each subset's evidence to its largest superset, which is never itself a subset
+  for (let i = 0; i < deduped.length; i++) {
+    if (!isSubset[i]) continue;
+    let target = -1;
+    for (let j = 0; j < deduped.length; j++) {
+      if (i === j || memberSets[j].size <= memberSets[i].size) continue;
+      if (isSubsetOf(memberSets[i], memberSets[j]) && (target < 0 || memberSets[j].size > memberSets[target].size)) {
+        target = j;
+      }
+    }
+    if (target >= 0) deduped[target].evidence = [...deduped[target].evidence, ...deduped[i].evidence];
+  }
   deduped = deduped.filter((_, i) => !isSubset[i]);
 
   // ── Step 3: Union-Find merge for ≥ 50% overlap ──
@@ -73,25 +95,28 @@ export function mergeOverlappingRings(rings: FraudRing[]): FraudRing[] {
 
   // Build merged rings
   const result: FraudRing[] = [];
-  let ringCounter = 0;
 
   for (const group of groups.values()) {
-    ringCounter++;
     const unionMembers = new Set<string>();
     const patterns = new Set<string>();
+    const evidence: FraudRing['evidence'] = [];
     let maxRisk = 0;
 
     for (const idx of group) {
       for (const m of deduped[idx].member_accounts) unionMembers.add(m);
       patterns.add(deduped[idx].pattern_type);
+      evidence.push(...deduped[idx].evidence);
       maxRisk = Math.max(maxRisk, deduped[idx].risk_score);
     }
 
+    const members = Array.from(unionMembers).sort();
+    const patternType = selectHighestSeverity(patterns);
     result.push({
-      ring_id: `RING_${String(ringCounter).padStart(3, '0')}`,
-      member_accounts: Array.from(unionMembers).sort(),
-      pattern_type: selectHighestSeverity(patterns),
+      ring_id: ringId(patternType, members),
+      member_accounts: members,
+      pattern_type: patternType,
       risk_score: maxRisk,
+      evidence,
     });
   }
 
@@ -113,21 +138,10 @@ function isSubsetOf(a: Set<string>, b: Set<string>): boolean {
   return true;
 }
 
-const SEVERITY_ORDER = [
-  'shell_network',
-  'cycle_length_5',
-  'cycle_length_4',
-  'cycle_length_3',
-  'fan_in_72h',
-  'fan_out_72h',
-];
-
-const SEVERITY_RANK: Record<string, number> = {};
-SEVERITY_ORDER.forEach((p, i) => { SEVERITY_RANK[p] = i; });
-
 function selectHighestSeverity(patterns: Set<string>): string {
-  for (const p of SEVERITY_ORDER) {
-    if (patterns.has(p)) return p;
+  let best: string | null = null;
+  for (const p of patterns) {
+    if (best === null || patternSeverity(p) < patternSeverity(best)) best = p;
   }
-  return Array.from(patterns)[0] || 'unknown';
+  return best || 'unknown';
 }
@@ -1,59 +1,165 @@
 import type { TransactionGraph } from './graph-engine';
-import type { FraudRing } from './types';
+import type { DetectionConfig, FraudRing, RingEvidence, ScoreBreakdown, ScoreFactor } from './types';
+import { DEFAULT_DETECTION_CONFIG } from './detection-config';
+import type { FeedbackIndex } from './feedback';
+import { describeWatchlistEntry } from './watchlist';
+import { getPatternDefinition } from './detector-registry';
+import type { PatternDefinition } from './detector-registry';
+
+/** Indexed by hop count; hits further out than the table use the last entry */
+const WATCHLIST_BONUSES = [50, 30, 15, 10];
+
+const CLUSTERING_WINDOW_MS = 72 * 60 * 60 * 1000;
 
 /**
  * Upgraded weighted scoring model.
- * Base = 20, pattern bonuses, capped at 100.
+ * Base = 20, pattern bonuses (each pattern's registered weight), capped at 100.
+ * Every adjustment is recorded in node.scoreBreakdown so the deltas sum to the score.
+ * Accounts cleared by analyst feedback are down-weighted unless the run
+ * suppresses them outright (the analyzer drops those from the output).
+ * Given the rings, accounts on the path of strong evidence get the pattern's evidence bonus.
  */
-export function computeSuspicionScores(graph: TransactionGraph): void {
+export function computeSuspicionScores(
+  graph: TransactionGraph,
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG,
+  feedback: FeedbackIndex | null = null,
+  rings: FraudRing[] = []
+): void {
   const nodes = graph.getNodeArray();
+  const evidenceBonuses = collectEvidenceBonuses(rings, config);
+  const prepared = new Map<PatternDefinition, unknown>();
 
   for (const node of nodes) {
     if (!node.isSuspicious) {
       node.suspicionScore = 0;
+      node.scoreBreakdown = [];
       continue;
     }
 
-    let score = 20; // Base score
+    const breakdown: ScoreBreakdown = [];
+    breakdown.push({ factor: 'base', delta: 20, evidence: 'Flagged by at least one detector' });
 
     const patterns = new Set(node.detectedPatterns);
+    const definitions = [...patterns].map(getPatternDefinition).filter(Boolean);
 
     // Pattern-based scoring
-    if (patterns.has('cycle_length_3')) score += 20;
-    if (patterns.has('cycle_length_4')) score += 30;
-    if (patterns.has('cycle_length_5')) score += 40;
-    if (patterns.has('fan_in_72h')) score += 35;
-    if (patterns.has('fan_out_72h')) score += 35;
-    if (patterns.has('shell_network')) score += 25;
+    for (const definition of definitions) {
+      if (definition.weight) {
+        if (definition.prepare && !prepared.has(definition)) prepared.set(definition, definition.prepare(graph, config));
+        breakdown.push({
+          factor: definition.pattern_type,
+          delta: definition.weight,
+          evidence: definition.describe(graph, node, config, prepared.get(definition)),
+        });
+      }
+    }
+
+    // Strongest bonus per factor from the evidence this account appears in
+    breakdown.push(...(evidenceBonuses.get(node.id)?.values() ?? []));
+
+    // Proximity to a watchlisted account, weighted by how close it is
+    if (node.watchlistHit) {
+      const { entry, hops, path } = node.watchlistHit;
+      breakdown.push({
+        factor: `watchlist_proximity_${hops}`,
+        delta: WATCHLIST_BONUSES[Math.min(hops, WATCHLIST_BONUSES.length - 1)],
+        evidence: hops === 0
+          ? `On the watchlist as ${describeWatchlistEntry(entry)}`
+          : `${hops} hop${hops === 1 ? '' : 's'} from watchlisted ${describeWatchlistEntry(entry)}: ${path.join(' ↔ ')}`,
+      });
+    }
 
     // Multiple ring membership bonus
     const uniqueRings = new Set(node.ringIds);
-    if (uniqueRings.size > 1) score += 10;
+    if (uniqueRings.size > 1) {
+      breakdown.push({
+        factor: 'multi_ring',
+        delta: 10,
+        evidence: `Member of ${uniqueRings.size} rings: ${Array.from(uniqueRings).join(', ')}`,
+      });
+    }
 
     // False positive reduction: no 72-hour clustering → reduce
     if (node.transactions.length > 2) {
-      const timestamps = node.transactions.map(t => t.timestamp.getTime()).sort();
-      let hasClustering = false;
+      const timestamps = node.transactions.map(t => t.timestamp.getTime()).sort((a, b) => a - b);
+      let minGap = Infinity;
       for (let i = 1; i < timestamps.length; i++) {
-        if (timestamps[i] - timestamps[i - 1] < 72 * 60 * 60 * 1000) {
-          hasClustering = true;
-          break;
-        }
+        minGap = Math.min(minGap, timestamps[i] - timestamps[i - 1]);
+      }
+      if (minGap >= CLUSTERING_WINDOW_MS) {
+        breakdown.push({
+          factor: 'no_temporal_clustering',
+          delta: -10,
+          evidence: `Closest transactions are ${Math.round(minGap / 3_600_000)}h apart (no two within 72h)`,
+        });
       }
-      if (!hasClustering) score -= 10;
     }
 
     // False positive: only one-direction flow
-    if ((node.inDegree === 0 || node.outDegree === 0) && !patterns.has('fan_in_72h') && !patterns.has('fan_out_72h')) {
-      score -= 5;
+    if ((node.inDegree === 0 || node.outDegree === 0) && !definitions.some(d => d.oneDirectional)) {
+      breakdown.push({
+        factor: 'one_direction_flow',
+        delta: -5,
+        evidence: node.inDegree === 0 ? 'Only sends funds, never receives' : 'Only receives funds, never sends',
+      });
+    }
+
+    // Known legitimate entity that the registry asks to down-weight rather than exclude
+    if (node.entity?.action === 'down_weight' && config.registry_penalty > 0) {
+      breakdown.push({
+        factor: 'registered_entity',
+        delta: -config.registry_penalty,
+        evidence: `Registered ${node.entity.entity_type}: ${node.entity.reason}`,
+      });
     }
 
-    node.suspicionScore = Math.round(Math.min(100, Math.max(0, score)) * 10) / 10;
+    // Analyst feedback: previously cleared as a false positive for these patterns
+    const clearance = feedback?.clearanceFor(node.id, [...patterns]);
+    if (clearance && !config.feedback_suppress && config.feedback_penalty > 0) {
+      breakdown.push({
+        factor: 'analyst_feedback',
+        delta: -config.feedback_penalty,
+        evidence: `Cleared as a false positive on ${clearance.decided_at.slice(0, 10)}` +
+          (clearance.pattern_type ? ` for ${clearance.pattern_type}` : ''),
+      });
+    }
+
+    const raw = breakdown.reduce((sum, f) => sum + f.delta, 0);
+    const score = Math.round(Math.min(100, Math.max(0, raw)) * 10) / 10;
+    if (score !== raw) {
+      breakdown.push({
+        factor: 'clamp',
+        delta: Math.round((score - raw) * 10) / 10,
+        evidence: `Raw score ${raw} clamped to the 0–100 range`,
+      });
+    }
+
+    node.suspicionScore = score;
+    node.scoreBreakdown = breakdown;
+  }
+}
+
+function collectEvidenceBonuses(rings: FraudRing[], config: DetectionConfig): Map<string, Map<string, ScoreFactor>> {
+  const bonuses = new Map<string, Map<string, ScoreFactor>>();
+  const seen = new Set<RingEvidence>();
+  for (const ring of rings) {
+    for (const evidence of ring.evidence) {
+      if (seen.has(evidence) || !evidence.path) continue;
+      seen.add(evidence);
+      const bonus = getPatternDefinition(evidence.pattern_type)?.evidenceBonus?.(evidence, config);
+      if (!bonus) continue;
+      for (const id of evidence.path) {
+        if (!bonuses.has(id)) bonuses.set(id, new Map());
+        const factors = bonuses.get(id)!;
+        if ((factors.get(bonus.factor)?.delta ?? -Infinity) < bonus.delta) factors.set(bonus.factor, bonus);
+      }
+    }
   }
+  return bonuses;
 }
 
 /**
- * Recalculate ring risk scores as average of member suspicion scores.
+ * Recalculate ring risk scores as average of flagged member suspicion scores.
  * Longer cycles produce higher risk.
  */
 export function computeRingRiskScores(graph: TransactionGraph, rings: FraudRing[]): void {
@@ -62,7 +168,8 @@ export function computeRingRiskScores(graph: TransactionGraph, rings: FraudRing[
     let count = 0;
     for (const memberId of ring.member_accounts) {
       const node = graph.nodes.get(memberId);
-      if (node) {
+      // Counterparties of subject-only patterns are members but not flagged
+      if (node?.isSuspicious) {
         totalScore += node.suspicionScore;
         count++;
       }
@@ -2,7 +2,11 @@ export interface Transaction {
   transaction_id: string;
   sender_id: string;
   receiver_id: string;
+  /** Amount in the reporting currency */
   amount: number;
+  /** Amount and ISO currency code as they appeared in the source file */
+  original_amount?: number;
+  currency?: string;
   timestamp: Date;
 }
 
@@ -12,11 +16,28 @@ export interface GraphNode {
   outDegree: number;
   totalIn: number;
   totalOut: number;
+  /** Original-currency totals, keyed by currency code */
+  totalInByCurrency: Record<string, number>;
+  totalOutByCurrency: Record<string, number>;
   transactions: Transaction[];
   isSuspicious: boolean;
   suspicionScore: number;
+  scoreBreakdown: ScoreBreakdown;
   detectedPatterns: string[];
   ringIds: string[];
+  /** Entity registry entry for this account, if any */
+  entity: RegisteredEntity | null;
+  /** Nearest watchlisted account within watchlist_max_hops, if any */
+  watchlistHit: WatchlistHit | null;
+}
+
+/** One time bucket of an account's activity; timelines only hold active buckets */
+export interface ActivityBucket {
+  /** Bucket start, epoch milliseconds */
+  start: number;
+  transactions: number;
+  inValue: number;
+  outValue: number;
 }
 
 export interface GraphEdge {
@@ -24,30 +45,191 @@ export interface GraphEdge {
   target: string;
   transactions: Transaction[];
   totalAmount: number;
+  totalAmountByCurrency: Record<string, number>;
   count: number;
 }
 
+/** The concrete flow a detector matched; merged rings keep one entry per source ring */
+export interface RingEvidence {
+  pattern_type: string;
+  /** Ordered accounts for cycles (first account repeated implicitly) and shell chains */
+  path?: string[];
+  /** Aggregating account for fan-in / fan-out, the pass-through account, or the scatter-gather collector */
+  hub_account?: string;
+  transaction_ids: string[];
+  /** ISO timestamps of the first and last matched transaction */
+  window_start: string;
+  window_end: string;
+  /** Sum of matched transaction amounts, in the reporting currency */
+  total_value: number;
+  /** Pass-through: median hours between receiving and forwarding funds */
+  median_dwell_hours?: number;
+  /** Pass-through: share of inbound value forwarded within the dwell time */
+  pass_through_ratio?: number;
+  /** Structuring: which signal matched (see detectStructuring) */
+  structuring_signal?: 'sub_threshold' | 'round_amounts' | 'split';
+  /** Scatter-gather: the account funds were scattered from */
+  source_account?: string;
+  /** Scatter-gather: accounts between the source and the collector */
+  intermediaries?: string[];
+  /** Share of the value entering the flow that reached its end (scatter-gather collector, last shell hop) */
+  value_conserved?: number;
+  /** Shell chains: per intermediate, the share of value received on the chain that it did not forward */
+  hop_retention?: number[];
+  /** Scatter-gather: first scatter payment to last gather payment (hours) */
+  elapsed_hours?: number;
+  /** Dormant reactivation: days without activity before the burst */
+  dormant_days?: number;
+  /** Velocity spike: whether the transaction count or the value per day spiked */
+  velocity_metric?: 'transactions' | 'value';
+  /** Velocity spike: robust z-score of the peak day against the account's own baseline */
+  z_score?: number;
+  /** Velocity spike: robust z-score of the peak day against all active account-days */
+  population_z_score?: number;
+  /** Velocity spike: the account's median of the metric per day before the peak */
+  baseline_per_day?: number;
+}
+
 export interface FraudRing {
   ring_id: string;
   member_accounts: string[];
   pattern_type: string;
   risk_score: number;
+  evidence: RingEvidence[];
+}
+
+/** One additive step of a suspicion score; deltas sum to the final score */
+export interface ScoreFactor {
+  factor: string;
+  delta: number;
+  evidence: string;
+}
+
+export type ScoreBreakdown = ScoreFactor[];
+
+/** A ring that matched one from the previous run but differs from it */
+export interface RingChange {
+  previous: FraudRing;
+  current: FraudRing;
+  added_members: string[];
+  removed_members: string[];
+}
+
+/** How the rings of a run compare with the run before it */
+export interface RingDiff {
+  new_rings: FraudRing[];
+  changed_rings: RingChange[];
+  /** Previous rings with no counterpart in this run */
+  resolved_rings: FraudRing[];
+  unchanged_rings: number;
 }
 
 export interface SuspiciousAccount {
   account_id: string;
   suspicion_score: number;
+  score_breakdown: ScoreBreakdown;
   detected_patterns: string[];
   ring_id: string | null;
 }
 
+export interface DetectionConfig {
+  /** Sliding window for fan-in / fan-out clustering (hours) */
+  smurfing_window_hours: number;
+  /** Distinct counterparties inside the window needed to flag a hub */
+  smurfing_min_counterparties: number;
+  cycle_min_length: number;
+  cycle_max_length: number;
+  /** Stop enumerating a strongly connected component after this many cycles */
+  cycle_max_per_component: number;
+  /** Only count cycles whose hops can be matched by time-ordered transactions */
+  temporal_cycles: boolean;
+  /** Max time from first to last hop of a temporal cycle (hours) */
+  cycle_window_hours: number;
+  /** Chain length bounds (accounts, including source and destination) */
+  shell_min_chain_length: number;
+  shell_max_chain_length: number;
+  /** Total transaction count range that makes an intermediate a shell account */
+  shell_min_transactions: number;
+  shell_max_transactions: number;
+  /** Max gap between receiving and forwarding funds along a shell chain (hours) */
+  shell_forwarding_window_hours: number;
+  /** Share of the value received on a shell chain each intermediate must forward along it */
+  shell_min_forward_ratio: number;
+  /** Per-hop retention (fee skim) up to which a shell chain counts as preserving value */
+  shell_fee_tolerance: number;
+  /** Forwarding later than this after receipt does not count as pass-through (hours) */
+  pass_through_max_dwell_hours: number;
+  /** Share of inbound value an account must forward within the dwell time (0–1] */
+  pass_through_min_ratio: number;
+  /** Matched transactions, inbound and outbound, an account needs (2 is a single receive-and-forward pair) */
+  pass_through_min_transactions: number;
+  /** Value an account must forward within the dwell time, in the reporting currency */
+  pass_through_min_value: number;
+  /** Reporting threshold that structured amounts stay below, in the reporting currency */
+  structuring_threshold: number;
+  /** Amounts within this fraction below the threshold are suspicious (0.1 → 9,000–9,999 against 10,000) */
+  structuring_margin: number;
+  /** Rolling window the repeated amounts must fall in (hours) */
+  structuring_window_hours: number;
+  /** Repeated sub-threshold or round amounts needed inside one window */
+  structuring_min_transactions: number;
+  /**
+   * Multiples of this amount between half the threshold and the threshold count
+   * as round numbers; checked on the original amount, before currency conversion
+   */
+  structuring_round_unit: number;
+  /** How far smaller payments may sum from the transfer they were split from (fraction) */
+  structuring_split_tolerance: number;
+  /** Distinct intermediaries needed between one source and one collector */
+  scatter_gather_min_intermediaries: number;
+  /** Max time from the first scatter payment to the last gather payment (hours) */
+  scatter_gather_window_hours: number;
+  /** Days without any transaction that make an account dormant */
+  dormant_min_gap_days: number;
+  /** Period after reactivation that the burst is measured over (days) */
+  dormant_burst_days: number;
+  /** Inbound plus outbound value the burst must reach, in the reporting currency */
+  dormant_burst_min_value: number;
+  /** Transactions the burst must contain */
+  dormant_burst_min_transactions: number;
+  /** Days before each day that form an account's rolling baseline */
+  velocity_baseline_days: number;
+  /** Days of history an account needs before its days are scored */
+  velocity_min_history_days: number;
+  /** Robust z-score a day must reach against both its account and the population */
+  velocity_z_threshold: number;
+  /** Transactions a day needs to count as a spike */
+  velocity_min_transactions: number;
+  /** Accounts with more transactions than this are treated as legitimate hubs; 0 disables the heuristic */
+  legitimate_volume_threshold: number;
+  /** Points subtracted from registered entities marked down_weight */
+  registry_penalty: number;
+  /** Flag accounts within this many transaction hops of a watchlisted account */
+  watchlist_max_hops: number;
+  /** Drop accounts cleared as false positives instead of down-weighting them */
+  feedback_suppress: boolean;
+  /** Points subtracted from an account cleared as a false positive */
+  feedback_penalty: number;
+  /** Dispositions older than this stop affecting scores (days) */
+  feedback_expiry_days: number;
+}
+
 export interface DetectionResult {
   suspicious_accounts: SuspiciousAccount[];
   fraud_rings: FraudRing[];
+  config: DetectionConfig;
+  /** Non-fatal problems, e.g. a search cap that made results incomplete */
+  warnings: string[];
+  /** Accounts the detectors skipped or down-weighted, and why */
+  exclusions: AccountExclusion[];
+  /** Currency all amounts and totals are normalized to */
+  reporting_currency: string;
   summary: {
     total_accounts_analyzed: number;
     suspicious_accounts_flagged: number;
     fraud_rings_detected: number;
+    /** Flagged accounts dropped or down-weighted because analysts cleared them */
+    suppressed_by_feedback: number;
     processing_time_seconds: number;
   };
   graph: {
@@ -56,7 +238,116 @@ export interface DetectionResult {
   };
 }
 
+export type RequiredColumn = 'transaction_id' | 'sender_id' | 'receiver_id' | 'amount' | 'timestamp';
+
+/** Source CSV header for each required column, plus the optional currency column */
+export type ColumnMapping = Record<RequiredColumn, string> & { currency?: string };
+
+export interface RejectedRow {
+  /** 1-indexed line in the source file (header is line 1) */
+  line: number;
+  /** Offending column, or null when the row as a whole is rejected */
+  column: string | null;
+  reason: string;
+  row: Record<string, string>;
+}
+
+export interface IngestionReport {
+  rows_read: number;
+  rows_accepted: number;
+  rows_rejected: RejectedRow[];
+  duplicate_transaction_ids: string[];
+  self_transfers: string[];
+  /** Accepted rows per original currency */
+  currencies: Record<string, number>;
+  reporting_currency: string;
+}
+
+export interface ParsedCSV {
+  transactions: Transaction[];
+  report: IngestionReport;
+}
+
 export interface AnalysisProgress {
   stage: string;
   percent: number;
 }
+
+export type CaseStatus = 'new' | 'investigating' | 'escalated' | 'closed_false_positive' | 'closed_sar_filed';
+
+export interface Case {
+  id: string;
+  analysis_id: string | null;
+  created_at: string;
+  updated_at: string;
+  subject_type: 'account' | 'ring';
+  /** account_id or ring_id */
+  subject_id: string;
+  /** The account itself, or the ring's members at the time the case was opened */
+  member_accounts: string[];
+  title: string;
+  status: CaseStatus;
+  assignee: string | null;
+}
+
+export interface CaseNote {
+  id: string;
+  case_id: string;
+  created_at: string;
+  body: string;
+}
+
+export interface CaseEvidence {
+  id: string;
+  case_id: string;
+  created_at: string;
+  label: string;
+  url: string | null;
+  /** Snapshot from the detection result, e.g. ring evidence or a score breakdown */
+  data: unknown;
+}
+
+/** An analyst's decision on an account, recorded when its case is closed */
+export interface AccountDisposition {
+  account_id: string;
+  /** Pattern the decision covers, or null for every pattern */
+  pattern_type: string | null;
+  disposition: 'false_positive' | 'confirmed';
+  /** ISO timestamp of the decision */
+  decided_at: string;
+}
+
+export type EntityType = 'payroll' | 'merchant' | 'exchange' | 'government' | 'other';
+
+/** A known legitimate account from the uploaded entity registry */
+export interface RegisteredEntity {
+  account_id: string;
+  entity_type: EntityType;
+  reason: string;
+  /** exclude: invisible to every detector; down_weight: detected but scored lower */
+  action: 'exclude' | 'down_weight';
+}
+
+export interface AccountExclusion {
+  account_id: string;
+  source: 'registry' | 'volume_threshold';
+  entity_type: EntityType | null;
+  reason: string;
+  action: 'excluded' | 'down_weighted';
+}
+
+/** A known bad account; name and aliases are for display only */
+export interface WatchlistEntry {
+  account_id: string;
+  name: string | null;
+  aliases: string[];
+}
+
+export interface WatchlistHit {
+  /** The watchlisted account reached */
+  entry: WatchlistEntry;
+  /** 0 when the account itself is watchlisted */
+  hops: number;
+  /** Accounts from this one to the watchlisted account, inclusive */
+  path: string[];
+}
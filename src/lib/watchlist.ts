@@ -0,0 +1,40 @@
+import Papa from 'papaparse';
+import type { WatchlistEntry } from './types';
+
+/**
+ * Parse a watchlist CSV with an account_id column and optional name and
+ * aliases columns (aliases separated by ";" or "|"). Blank account IDs fail
+ * the whole file rather than silently shrinking the list.
+ */
+export function parseWatchlist(text: string): WatchlistEntry[] {
+  const { data, meta } = Papa.parse<Record<string, string>>(text.trim(), { header: true, skipEmptyLines: true });
+  if (!meta.fields?.includes('account_id')) throw new Error('Watchlist missing column: account_id');
+
+  const errors: string[] = [];
+  const byId = new Map<string, WatchlistEntry>();
+  data.forEach((row, i) => {
+    const accountId = row.account_id?.trim();
+    if (!accountId) {
+      errors.push(`line ${i + 2}: missing account_id`);
+      return;
+    }
+    const aliases = (row.aliases ?? '').split(/[;|]/).map(a => a.trim()).filter(Boolean);
+    const existing = byId.get(accountId);
+    if (existing) {
+      // The same account listed twice (e.g. from two sources): keep every alias
+      existing.aliases = [...new Set([...existing.aliases, ...aliases])];
+      existing.name ??= row.name?.trim() || null;
+      return;
+    }
+    byId.set(accountId, { account_id: accountId, name: row.name?.trim() || null, aliases });
+  });
+
+  if (errors.length > 0) throw new Error(`Invalid watchlist:\n${errors.join('\n')}`);
+  return Array.from(byId.values());
+}
+
+/** "ACC_1 (Jane Doe, aka J. Doe)" */
+export function describeWatchlistEntry(entry: WatchlistEntry): string {
+  const names = [entry.name, ...entry.aliases.map(a => `aka ${a}`)].filter(Boolean);
+  return names.length > 0 ? `${entry.account_id} (${names.join(', ')})` : entry.account_id;
+}
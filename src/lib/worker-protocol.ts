@@ -0,0 +1,116 @@
+import type {
+  AccountDisposition,
+  AnalysisProgress,
+  ColumnMapping,
+  DetectionConfig,
+  DetectionResult,
+  GraphEdge,
+  GraphNode,
+  IngestionReport,
+  RegisteredEntity,
+  RingDiff,
+  Transaction,
+  WatchlistEntry,
+} from './types';
+import type { FxRateTable } from './fx-rates';
+
+/**
+ * Message protocol between the UI thread and the analysis worker.
+ *
+ * Transactions cross the boundary once, in a flat table with timestamps as
+ * epoch milliseconds. Nodes and edges reference them by index so the
+ * deserialized graph shares Transaction objects the same way the original did.
+ */
+
+export interface SerializedTransaction {
+  transaction_id: string;
+  sender_id: string;
+  receiver_id: string;
+  amount: number;
+  original_amount?: number;
+  currency?: string;
+  timestamp: number;
+}
+
+export type SerializedGraphNode = Omit<GraphNode, 'transactions'> & { transactions: number[] };
+export type SerializedGraphEdge = Omit<GraphEdge, 'transactions'> & { transactions: number[] };
+
+export interface SerializedDetectionResult extends Omit<DetectionResult, 'graph'> {
+  transactions: SerializedTransaction[];
+  graph: {
+    nodes: SerializedGraphNode[];
+    edges: SerializedGraphEdge[];
+  };
+}
+
+/**
+ * A session is `parse` followed by `analyze`: the worker keeps the parsed
+ * transactions between the two so they never cross the boundary. Another
+ * `parse` then `analyze` with `append` adds a batch to the last analysis,
+ * or to a finished result handed over with `restore`.
+ */
+export type AnalysisWorkerRequest =
+  | { type: 'parse'; file: File; mapping?: ColumnMapping; fxRates?: FxRateTable | null; reportingCurrency?: string }
+  | { type: 'restore'; result: SerializedDetectionResult }
+  | {
+      type: 'analyze';
+      config?: Partial<DetectionConfig>;
+      feedback?: AccountDisposition[];
+      registry?: RegisteredEntity[];
+      watchlist?: WatchlistEntry[];
+      /** Analyze the parsed batch incrementally on top of the previous analysis */
+      append?: boolean;
+    };
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'parsed'; report: IngestionReport }
+  | { type: 'restored' }
+  | { type: 'result'; result: SerializedDetectionResult; diff: RingDiff | null }
+  | { type: 'error'; message: string };
+
+export function serializeTransaction(tx: Transaction): SerializedTransaction {
+  return { ...tx, timestamp: tx.timestamp.getTime() };
+}
+
+export function deserializeTransaction(tx: SerializedTransaction): Transaction {
+  return { ...tx, timestamp: new Date(tx.timestamp) };
+}
+
+export function serializeResult(result: DetectionResult): SerializedDetectionResult {
+  const index = new Map<Transaction, number>();
+  const transactions: SerializedTransaction[] = [];
+
+  const ref = (tx: Transaction): number => {
+    let i = index.get(tx);
+    if (i === undefined) {
+      i = transactions.length;
+      index.set(tx, i);
+      transactions.push(serializeTransaction(tx));
+    }
+    return i;
+  };
+
+  const { graph, ...rest } = result;
+  return {
+    ...rest,
+    transactions,
+    graph: {
+      nodes: graph.nodes.map(n => ({ ...n, transactions: n.transactions.map(ref) })),
+      edges: graph.edges.map(e => ({ ...e, transactions: e.transactions.map(ref) })),
+    },
+  };
+}
+
+export function deserializeResult(serialized: SerializedDetectionResult): DetectionResult {
+  const { transactions: table, graph, ...rest } = serialized;
+  const transactions = table.map(deserializeTransaction);
+
+  return {
+    ...rest,
+    graph: {
+      nodes: graph.nodes.map(n => ({ ...n, transactions: n.transactions.map(i => transactions[i]) })),
+      edges: graph.edges.map(e => ({ ...e, transactions: e.transactions.map(i => transactions[i]) })),
+    },
+  };
+}
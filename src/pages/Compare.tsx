@@ -0,0 +1,232 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Download, GitCompare } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { loadAnalysis } from '@/lib/analysis-store';
+import type { SavedAnalysis } from '@/lib/analysis-store';
+import {
+  DEFAULT_SCORE_THRESHOLD,
+  compareResults,
+  comparisonToJSON,
+  ringComparisonToCSV,
+  scoreChangesToCSV,
+} from '@/lib/result-comparison';
+import type { RingChangeKind } from '@/lib/result-comparison';
+import type { FraudRing } from '@/lib/types';
+import { toast } from 'sonner';
+
+const CHANGE_CLASSES: Record<RingChangeKind, string> = {
+  new: 'bg-danger/20 text-danger',
+  grown: 'bg-accent/20 text-accent',
+  changed: 'bg-primary/20 text-primary',
+  shrunk: 'bg-success/20 text-success',
+  disappeared: 'bg-secondary text-muted-foreground',
+};
+
+function download(content: string, fileName: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function Compare() {
+  const { beforeId, afterId } = useParams<{ beforeId: string; afterId: string }>();
+  const navigate = useNavigate();
+  const [analyses, setAnalyses] = useState<[SavedAnalysis, SavedAnalysis] | null>(null);
+  const [threshold, setThreshold] = useState(DEFAULT_SCORE_THRESHOLD);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadAnalysis(supabase, beforeId), loadAnalysis(supabase, afterId)])
+      .then(loaded => {
+        if (!cancelled) setAnalyses(loaded);
+      })
+      .catch(err => {
+        toast.error(err instanceof Error ? err.message : 'Failed to load analyses');
+        navigate('/history', { replace: true });
+      });
+    return () => { cancelled = true; };
+  }, [beforeId, afterId, navigate]);
+
+  const comparison = useMemo(
+    () => analyses && compareResults(analyses[0].result, analyses[1].result, threshold),
+    [analyses, threshold]
+  );
+
+  if (!analyses || !comparison) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="h-8 w-8 animate-spin rounded-full border-2 border-muted-foreground border-t-primary" />
+      </div>
+    );
+  }
+
+  const [before, after] = analyses;
+  const counts = comparison.rings.reduce<Partial<Record<RingChangeKind, number>>>((acc, r) => {
+    acc[r.change] = (acc[r.change] ?? 0) + 1;
+    return acc;
+  }, {});
+  const baseName = `comparison_${before.id.slice(0, 8)}_${after.id.slice(0, 8)}`;
+
+  return (
+    <div className="flex min-h-screen flex-col items-center px-4 py-8 grid-bg">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-5xl rounded-lg border border-border bg-card"
+      >
+        <div className="flex items-center justify-between border-b border-border p-4">
+          <div className="flex items-center gap-2">
+            <GitCompare className="h-4 w-4 text-primary" />
+            <h2 className="font-mono text-xs uppercase tracking-wider text-muted-foreground">Compare Analyses</h2>
+          </div>
+          <Link to="/history" className="flex items-center gap-1.5 text-muted-foreground transition-colors hover:text-foreground">
+            <ArrowLeft className="h-4 w-4" />
+            <span className="text-xs">History</span>
+          </Link>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 border-b border-border p-4">
+          {[{ label: 'Before', item: before }, { label: 'After', item: after }].map(({ label, item }) => (
+            <div key={label} className="rounded-md border border-border bg-secondary/50 p-3">
+              <p className="text-[10px] uppercase tracking-wider text-muted-foreground">{label}</p>
+              <p className="font-mono text-xs text-foreground">{item.file_name}</p>
+              <p className="font-mono text-[10px] text-muted-foreground">
+                {new Date(item.created_at).toLocaleString()} • {item.summary.suspicious_accounts_flagged} flagged •{' '}
+                {item.summary.fraud_rings_detected} rings
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 border-b border-border p-4">
+          <div className="flex flex-wrap gap-1.5">
+            {(Object.keys(CHANGE_CLASSES) as RingChangeKind[]).map(kind => (
+              <span key={kind} className={`rounded-sm px-2 py-0.5 font-mono text-[10px] uppercase ${CHANGE_CLASSES[kind]}`}>
+                {counts[kind] ?? 0} {kind}
+              </span>
+            ))}
+            <span className="rounded-sm bg-secondary px-2 py-0.5 font-mono text-[10px] uppercase text-muted-foreground">
+              {comparison.unchanged_rings} unchanged
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            {[
+              { label: 'JSON', content: () => comparisonToJSON(comparison), file: `${baseName}.json`, type: 'application/json' },
+              { label: 'Rings CSV', content: () => ringComparisonToCSV(comparison), file: `${baseName}_rings.csv`, type: 'text/csv' },
+              { label: 'Scores CSV', content: () => scoreChangesToCSV(comparison), file: `${baseName}_scores.csv`, type: 'text/csv' },
+            ].map(exp => (
+              <button
+                key={exp.label}
+                onClick={() => download(exp.content(), exp.file, exp.type)}
+                className="flex h-8 items-center gap-1.5 rounded-sm border border-primary bg-primary/10 px-3 font-mono text-xs text-primary transition-colors hover:bg-primary/20"
+              >
+                <Download className="h-3 w-3" />
+                {exp.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-border">
+              {['Change', 'Before', 'After', 'Members'].map(label => (
+                <th key={label} className="px-4 py-2 text-left font-mono text-[10px] uppercase tracking-wider text-muted-foreground">
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.rings.map(row => (
+              <tr key={`${row.before?.ring_id}-${row.after?.ring_id}`} className="border-b border-border/50">
+                <td className="px-4 py-2">
+                  <span className={`rounded-sm px-2 py-0.5 font-mono text-[10px] uppercase ${CHANGE_CLASSES[row.change]}`}>
+                    {row.change}
+                  </span>
+                </td>
+                <td className="px-4 py-2"><RingCell ring={row.before} /></td>
+                <td className="px-4 py-2"><RingCell ring={row.after} /></td>
+                <td className="max-w-[320px] px-4 py-2 font-mono text-[10px]">
+                  {row.added_members.length > 0 && <p className="break-all text-danger">+ {row.added_members.join(', ')}</p>}
+                  {row.removed_members.length > 0 && <p className="break-all text-success">− {row.removed_members.join(', ')}</p>}
+                </td>
+              </tr>
+            ))}
+            {comparison.rings.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-4 py-6 text-center text-xs text-muted-foreground">No ring changes</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+
+        <div className="flex items-center justify-between border-y border-border p-4">
+          <h3 className="font-mono text-xs uppercase tracking-wider text-muted-foreground">
+            Score Changes • {comparison.score_changes.length} accounts
+          </h3>
+          <label className="flex items-center gap-2 font-mono text-[10px] text-muted-foreground">
+            moved by more than
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={threshold}
+              onChange={e => setThreshold(Math.max(0, Number(e.target.value) || 0))}
+              className="h-7 w-16 rounded-sm border border-border bg-secondary px-2 font-mono text-xs text-foreground focus:border-primary focus:outline-none"
+            />
+            points
+          </label>
+        </div>
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-border">
+              {['Account', 'Before', 'After', 'Change'].map(label => (
+                <th key={label} className="px-4 py-2 text-left font-mono text-[10px] uppercase tracking-wider text-muted-foreground">
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.score_changes.map(c => (
+              <tr key={c.account_id} className="border-b border-border/50">
+                <td className="px-4 py-2 font-mono text-xs text-foreground">{c.account_id}</td>
+                <td className="px-4 py-2 font-mono text-xs text-muted-foreground">{c.before ?? '—'}</td>
+                <td className="px-4 py-2 font-mono text-xs text-muted-foreground">{c.after ?? '—'}</td>
+                <td className={`px-4 py-2 font-mono text-xs font-bold ${c.delta > 0 ? 'text-danger' : 'text-success'}`}>
+                  {c.delta > 0 ? '+' : ''}{c.delta}
+                </td>
+              </tr>
+            ))}
+            {comparison.score_changes.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-4 py-6 text-center text-xs text-muted-foreground">
+                  No account moved by more than {comparison.score_threshold} points
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </motion.div>
+    </div>
+  );
+}
+
+function RingCell({ ring }: { ring: FraudRing | null }) {
+  if (!ring) return <span className="font-mono text-xs text-muted-foreground">—</span>;
+  return (
+    <div>
+      <p className="font-mono text-xs text-foreground">{ring.ring_id}</p>
+      <p className="font-mono text-[10px] text-muted-foreground">
+        {ring.pattern_type} • {ring.member_accounts.length} members • risk {ring.risk_score}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, GitCompare, History as HistoryIcon, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { deleteAnalysis, listAnalyses } from '@/lib/analysis-store';
+import type { AnalysisListItem } from '@/lib/analysis-store';
+import { toast } from 'sonner';
+
+export default function History() {
+  const navigate = useNavigate();
+  const [analyses, setAnalyses] = useState<AnalysisListItem[] | null>(null);
+  // Up to two analyses picked for comparison; picking a third drops the oldest pick
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    listAnalyses(supabase)
+      .then(setAnalyses)
+      .catch(err => {
+        toast.error(err instanceof Error ? err.message : 'Failed to load analysis history');
+        setAnalyses([]);
+      });
+  }, []);
+
+  const handleDelete = async (item: AnalysisListItem) => {
+    if (!window.confirm(`Delete the analysis of ${item.file_name}?`)) return;
+    try {
+      await deleteAnalysis(supabase, item.id);
+      setAnalyses(prev => prev?.filter(a => a.id !== item.id) ?? null);
+      setSelected(prev => prev.filter(id => id !== item.id));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete analysis');
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id].slice(-2));
+  };
+
+  const compareSelected = () => {
+    const [before, after] = (analyses ?? [])
+      .filter(a => selected.includes(a.id))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    navigate(`/compare/${before.id}/${after.id}`);
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col items-center px-4 py-8 grid-bg">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-4xl rounded-lg border border-border bg-card"
+      >
+        <div className="flex items-center justify-between border-b border-border p-4">
+          <div className="flex items-center gap-2">
+            <HistoryIcon className="h-4 w-4 text-primary" />
+            <h2 className="font-mono text-xs uppercase tracking-wider text-muted-foreground">Analysis History</h2>
+          </div>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={compareSelected}
+              disabled={selected.length !== 2}
+              title="Select two analyses to compare"
+              className="flex h-8 items-center gap-1.5 rounded-sm border border-primary bg-primary/10 px-3 font-mono text-xs text-primary transition-colors hover:bg-primary/20 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              <GitCompare className="h-3 w-3" />
+              Compare ({selected.length}/2)
+            </button>
+            <Link to="/" className="flex items-center gap-1.5 text-muted-foreground transition-colors hover:text-foreground">
+              <ArrowLeft className="h-4 w-4" />
+              <span className="text-xs">New Analysis</span>
+            </Link>
+          </div>
+        </div>
+
+        {analyses === null ? (
+          <div className="flex justify-center p-8">
+            <div className="h-6 w-6 animate-spin rounded-full border-2 border-muted-foreground border-t-primary" />
+          </div>
+        ) : analyses.length === 0 ? (
+          <p className="p-8 text-center text-xs text-muted-foreground">No saved analyses yet. Completed analyses are saved automatically.</p>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="w-8" />
+                {['Date', 'File', 'Accounts', 'Flagged', 'Rings', ''].map(label => (
+                  <th key={label} className="px-4 py-2 text-left font-mono text-[10px] uppercase tracking-wider text-muted-foreground">
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {analyses.map(item => (
+                <tr
+                  key={item.id}
+                  onClick={() => navigate(`/analyses/${item.id}`)}
+                  className="cursor-pointer border-b border-border/50 transition-colors hover:bg-secondary/30"
+                >
+                  <td className="pl-4" onClick={e => e.stopPropagation()}>
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(item.id)}
+                      onChange={() => toggleSelected(item.id)}
+                      className="accent-primary"
+                      aria-label={`Select ${item.file_name} for comparison`}
+                    />
+                  </td>
+                  <td className="px-4 py-2 font-mono text-xs text-muted-foreground">{new Date(item.created_at).toLocaleString()}</td>
+                  <td className="px-4 py-2 font-mono text-xs text-foreground">{item.file_name}</td>
+                  <td className="px-4 py-2 font-mono text-xs text-foreground">{item.summary.total_accounts_analyzed}</td>
+                  <td className="px-4 py-2 font-mono text-xs text-danger">{item.summary.suspicious_accounts_flagged}</td>
+                  <td className="px-4 py-2 font-mono text-xs text-accent">{item.summary.fraud_rings_detected}</td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={e => { e.stopPropagation(); handleDelete(item); }}
+                      className="rounded p-1 text-muted-foreground hover:bg-secondary hover:text-danger"
+                      title="Delete analysis"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -1,53 +1,340 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { History } from 'lucide-react';
 import UploadZone from '@/components/UploadZone';
 import Dashboard from '@/components/Dashboard';
 import ProgressIndicator from '@/components/ProgressIndicator';
-import { parseCSV } from '@/lib/csv-parser';
-import { analyzeTransactions } from '@/lib/analyzer';
-import type { DetectionResult, AnalysisProgress } from '@/lib/types';
+import IngestionReportPanel from '@/components/IngestionReportPanel';
+import ColumnMappingStep from '@/components/ColumnMappingStep';
+import CurrencySettings from '@/components/CurrencySettings';
+import EntityRegistrySettings from '@/components/EntityRegistrySettings';
+import WatchlistSettings from '@/components/WatchlistSettings';
+import { AnalysisSession, isAbortError } from '@/lib/analysis-client';
+import { isStandardHeader, previewCSV } from '@/lib/column-mapping';
+import type { CSVPreview } from '@/lib/column-mapping';
+import { DEFAULT_REPORTING_CURRENCY, isCurrencyCode } from '@/lib/fx-rates';
+import type { FxRateTable } from '@/lib/fx-rates';
+import type {
+  DetectionResult,
+  AnalysisProgress,
+  IngestionReport,
+  ColumnMapping,
+  RegisteredEntity,
+  RingDiff,
+  WatchlistEntry,
+} from '@/lib/types';
+import { supabase } from '@/integrations/supabase/client';
+import { saveAnalysis } from '@/lib/analysis-store';
+import type { SavedAnalysis } from '@/lib/analysis-store';
+import { listDispositions } from '@/lib/case-store';
 import { toast } from 'sonner';
 
-type AppState = 'upload' | 'processing' | 'results';
+type AppState = 'upload' | 'mapping' | 'processing' | 'review' | 'results';
 
-const Index = () => {
-  const [state, setState] = useState<AppState>('upload');
+interface IndexProps {
+  /** Open on a saved analysis, so batches can be appended to it */
+  saved?: SavedAnalysis;
+}
+
+const Index = ({ saved }: IndexProps) => {
+  const navigate = useNavigate();
+  const [state, setState] = useState<AppState>(saved ? 'results' : 'upload');
   const [progress, setProgress] = useState<AnalysisProgress>({ stage: '', percent: 0 });
-  const [result, setResult] = useState<DetectionResult | null>(null);
+  const [result, setResult] = useState<DetectionResult | null>(saved?.result ?? null);
+  const [analysisId, setAnalysisId] = useState<string | null>(saved?.id ?? null);
+  const [pending, setPending] = useState<{ file: File; preview: CSVPreview } | null>(null);
+  const [ingestion, setIngestion] = useState<{ fileName: string; report: IngestionReport } | null>(null);
+  // Appended batches reuse the first file's column mapping and are saved under a combined name
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | undefined>(undefined);
+  const [analysisName, setAnalysisName] = useState(saved?.file_name ?? '');
+  const [appending, setAppending] = useState(false);
+  const [batchDiff, setBatchDiff] = useState<{ diff: RingDiff; batchName: string } | null>(null);
+  const [reportingCurrency, setReportingCurrency] = useState(saved?.reporting_currency ?? DEFAULT_REPORTING_CURRENCY);
+  const [fxRates, setFxRates] = useState<FxRateTable | null>(null);
+  // A saved analysis keeps the registry it ran with on its accounts
+  const [registry, setRegistry] = useState<RegisteredEntity[] | null>(() => {
+    const entities = saved?.result.graph.nodes.map(n => n.entity).filter(Boolean) ?? [];
+    return entities.length > 0 ? entities : null;
+  });
+  const [watchlist, setWatchlist] = useState<WatchlistEntry[] | null>(null);
+  const sessionRef = useRef<AnalysisSession | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const endSession = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    sessionRef.current?.terminate();
+    sessionRef.current = null;
+  }, []);
+
+  useEffect(() => endSession, [endSession]);
+
+  const handleError = useCallback((err: unknown) => {
+    if (isAbortError(err)) {
+      toast.info('Analysis cancelled');
+    } else {
+      console.error(err);
+      toast.error(err instanceof Error ? err.message : 'Analysis failed');
+    }
+    endSession();
+    setState('upload');
+  }, [endSession]);
+
+  // Saving runs in the background; a failure must not hide the results
+  const save = useCallback((name: string, detectionResult: DetectionResult) => {
+    setAnalysisId(null);
+    saveAnalysis(supabase, name, detectionResult).then(setAnalysisId).catch(err => {
+      console.error(err);
+      toast.error(err instanceof Error ? err.message : 'Failed to save analysis');
+    });
+  }, []);
+
+  const startParse = useCallback(async (file: File, mapping?: ColumnMapping) => {
+    endSession();
+    const session = new AnalysisSession();
+    const controller = new AbortController();
+    sessionRef.current = session;
+    abortRef.current = controller;
 
-  const handleFile = useCallback(async (file: File) => {
     try {
       setState('processing');
-      setProgress({ stage: 'Parsing CSV file...', percent: 5 });
+      setProgress({ stage: 'Parsing CSV file...', percent: 0 });
 
-      const transactions = await parseCSV(file);
-      toast.success(`Parsed ${transactions.length} transactions`);
+      const report = await session.parse(
+        file,
+        { mapping, fxRates, reportingCurrency },
+        { onProgress: setProgress, signal: controller.signal }
+      );
+      setIngestion({ fileName: file.name, report });
+      setColumnMapping(mapping);
+      setState('review');
+    } catch (err) {
+      handleError(err);
+    }
+  }, [endSession, handleError, fxRates, reportingCurrency]);
+
+  const handleFile = useCallback(async (file: File) => {
+    if (!isCurrencyCode(reportingCurrency)) {
+      toast.error(`Invalid reporting currency "${reportingCurrency}"`);
+      return;
+    }
+    try {
+      const preview = await previewCSV(file);
+      if (isStandardHeader(preview.headers)) {
+        await startParse(file);
+        return;
+      }
+      setPending({ file, preview });
+      setState('mapping');
+    } catch (err) {
+      handleError(err);
+    }
+  }, [startParse, handleError, reportingCurrency]);
+
+  const handleMappingConfirmed = useCallback((mapping: ColumnMapping) => {
+    if (!pending) return;
+    setPending(null);
+    startParse(pending.file, mapping);
+  }, [pending, startParse]);
 
-      const detectionResult = await analyzeTransactions(transactions, setProgress);
+  const handleAnalyze = useCallback(async () => {
+    const session = sessionRef.current;
+    if (!session || !ingestion) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      setState('processing');
+      setProgress({ stage: 'Loading analyst feedback...', percent: 0 });
+
+      // Feedback only adjusts scores; analysis goes ahead without it
+      const feedback = await listDispositions(supabase).catch(err => {
+        console.error(err);
+        toast.warning('Analyst feedback could not be loaded; scores are not adjusted');
+        return [];
+      });
+      const detectionResult = await session.analyze(
+        { feedback, registry: registry ?? undefined, watchlist: watchlist ?? undefined },
+        { onProgress: setProgress, signal: controller.signal }
+      );
+      // The session stays open so further batches can be appended
+      abortRef.current = null;
       setResult(detectionResult);
+      setBatchDiff(null);
+      setAnalysisName(ingestion.fileName);
       setState('results');
 
       toast.success(`Analysis complete: ${detectionResult.summary.suspicious_accounts_flagged} suspicious accounts found`);
+      save(ingestion.fileName, detectionResult);
     } catch (err) {
+      handleError(err);
+    }
+  }, [handleError, save, ingestion, registry, watchlist]);
+
+  // A failed batch leaves the previous results on screen. The worker drops its
+  // snapshot when a run fails (the graph is extended in place) and is gone
+  // after a crash or cancel, so the session ends; the next batch restores it
+  // from these results.
+  const handleBatchError = useCallback((err: unknown) => {
+    if (isAbortError(err)) {
+      toast.info('Batch cancelled');
+    } else {
       console.error(err);
-      toast.error(err instanceof Error ? err.message : 'Analysis failed');
-      setState('upload');
+      toast.error(err instanceof Error ? err.message : 'Batch failed');
+    }
+    endSession();
+    setAppending(false);
+    setState('results');
+  }, [endSession]);
+
+  const handleAppendFile = useCallback(async (file: File) => {
+    if (!result) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      setState('processing');
+      // Saved analyses, and sessions that ended, start a new worker from the results on screen
+      let session = sessionRef.current;
+      if (!session) {
+        setProgress({ stage: 'Restoring previous analysis...', percent: 0 });
+        session = new AnalysisSession();
+        sessionRef.current = session;
+        await session.restore(result, { onProgress: setProgress, signal: controller.signal });
+      }
+      setProgress({ stage: 'Parsing CSV file...', percent: 0 });
+
+      const report = await session.parse(
+        file,
+        { mapping: columnMapping, fxRates, reportingCurrency },
+        { onProgress: setProgress, signal: controller.signal }
+      );
+      setIngestion({ fileName: file.name, report });
+      setAppending(true);
+      setState('review');
+    } catch (err) {
+      handleBatchError(err);
+    }
+  }, [handleBatchError, result, columnMapping, fxRates, reportingCurrency]);
+
+  const handleAppendAnalyze = useCallback(async () => {
+    const session = sessionRef.current;
+    if (!session || !ingestion) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      setState('processing');
+      setProgress({ stage: 'Loading analyst feedback...', percent: 0 });
+
+      const feedback = await listDispositions(supabase).catch(err => {
+        console.error(err);
+        toast.warning('Analyst feedback could not be loaded; scores are not adjusted');
+        return [];
+      });
+      const { result: detectionResult, diff } = await session.append(
+        { feedback, registry: registry ?? undefined, watchlist: watchlist ?? undefined },
+        { onProgress: setProgress, signal: controller.signal }
+      );
+      abortRef.current = null;
+      const name = `${analysisName} + ${ingestion.fileName}`;
+      setResult(detectionResult);
+      setBatchDiff({ diff, batchName: ingestion.fileName });
+      setAnalysisName(name);
+      setAppending(false);
+      setState('results');
+
+      toast.success(
+        `Batch analyzed: ${diff.new_rings.length} new, ${diff.changed_rings.length} changed, ${diff.resolved_rings.length} resolved rings`
+      );
+      save(name, detectionResult);
+    } catch (err) {
+      handleBatchError(err);
     }
+  }, [handleBatchError, save, ingestion, analysisName, registry, watchlist]);
+
+  const handleBatchCancel = useCallback(() => {
+    setAppending(false);
+    setState('results');
+  }, []);
+
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
   }, []);
 
   const handleReset = useCallback(() => {
+    if (saved) {
+      navigate('/');
+      return;
+    }
+    endSession();
     setState('upload');
     setResult(null);
-  }, []);
+    setAnalysisId(null);
+    setPending(null);
+    setIngestion(null);
+    setColumnMapping(undefined);
+    setAppending(false);
+    setBatchDiff(null);
+  }, [endSession, saved, navigate]);
 
   if (state === 'processing') {
-    return <ProgressIndicator progress={progress} />;
+    return <ProgressIndicator progress={progress} onCancel={handleCancel} />;
+  }
+
+  if (state === 'mapping' && pending) {
+    return (
+      <ColumnMappingStep
+        fileName={pending.file.name}
+        preview={pending.preview}
+        onConfirm={handleMappingConfirmed}
+        onCancel={handleReset}
+      />
+    );
+  }
+
+  if (state === 'review' && ingestion) {
+    return (
+      <IngestionReportPanel
+        fileName={ingestion.fileName}
+        report={ingestion.report}
+        onContinue={appending ? handleAppendAnalyze : handleAnalyze}
+        onCancel={appending ? handleBatchCancel : handleReset}
+      />
+    );
   }
 
   if (state === 'results' && result) {
-    return <Dashboard result={result} onReset={handleReset} />;
+    return (
+      <Dashboard
+        result={result}
+        analysisId={analysisId}
+        batchDiff={batchDiff}
+        onAppend={handleAppendFile}
+        onReset={handleReset}
+      />
+    );
   }
 
-  return <UploadZone onFileAccepted={handleFile} isProcessing={false} />;
+  return (
+    <UploadZone onFileAccepted={handleFile} isProcessing={false}>
+      <CurrencySettings
+        reportingCurrency={reportingCurrency}
+        onReportingCurrencyChange={setReportingCurrency}
+        fxRates={fxRates}
+        onFxRatesChange={setFxRates}
+      />
+      <EntityRegistrySettings registry={registry} onRegistryChange={setRegistry} />
+      <WatchlistSettings watchlist={watchlist} onWatchlistChange={setWatchlist} />
+      <Link
+        to="/history"
+        className="mt-4 flex items-center justify-center gap-1.5 text-muted-foreground transition-colors hover:text-foreground"
+      >
+        <History className="h-3.5 w-3.5" />
+        <span className="font-mono text-xs">Analysis History</span>
+      </Link>
+    </UploadZone>
+  );
 };
 
 export default Index;
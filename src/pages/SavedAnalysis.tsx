@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import Index from './Index';
+import { supabase } from '@/integrations/supabase/client';
+import { loadAnalysis } from '@/lib/analysis-store';
+import type { SavedAnalysis as SavedAnalysisRecord } from '@/lib/analysis-store';
+import { toast } from 'sonner';
+
+export default function SavedAnalysis() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [analysis, setAnalysis] = useState<SavedAnalysisRecord | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAnalysis(supabase, id)
+      .then(loaded => {
+        if (!cancelled) setAnalysis(loaded);
+      })
+      .catch(err => {
+        toast.error(err instanceof Error ? err.message : 'Failed to load analysis');
+        navigate('/history', { replace: true });
+      });
+    return () => { cancelled = true; };
+  }, [id, navigate]);
+
+  if (!analysis) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <div className="h-8 w-8 animate-spin rounded-full border-2 border-muted-foreground border-t-primary" />
+      </div>
+    );
+  }
+
+  // Keyed so opening another saved analysis starts a fresh workspace
+  return <Index key={analysis.id} saved={analysis} />;
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+import { analyzeTransactions } from "@/lib/analyzer";
+import { deleteAnalysis, listAnalyses, loadAnalysis, saveAnalysis } from "@/lib/analysis-store";
+import { tx } from "@/test/fixtures";
+
+type Row = Record<string, unknown>;
+
+/**
+ * In-memory stand-in for the handful of PostgREST calls the store makes.
+ * Cascading deletes mirror the foreign keys in the migration.
+ */
+function createStandIn(failTable?: string) {
+  const tables: Record<string, Row[]> = { analyses: [], analysis_accounts: [], analysis_rings: [] };
+  let nextId = 1;
+
+  const from = (table: string) => {
+    let op: "select" | "insert" | "delete" = "select";
+    let inserted: Row[] = [];
+    const filters: [string, unknown][] = [];
+    let single = false;
+    let orderBy: { column: string; ascending: boolean } | null = null;
+
+    const builder = {
+      insert(rows: Row | Row[]) {
+        op = "insert";
+        inserted = (Array.isArray(rows) ? rows : [rows]).map(r => ({
+          ...r,
+          ...(table === "analyses" ? { id: `id-${nextId++}`, created_at: new Date(Date.UTC(2024, 0, nextId)).toISOString() } : {}),
+        }));
+        return builder;
+      },
+      select() { return builder; },
+      delete() { op = "delete"; return builder; },
+      eq(column: string, value: unknown) { filters.push([column, value]); return builder; },
+      order(column: string, { ascending }: { ascending: boolean }) { orderBy = { column, ascending }; return builder; },
+      single() { single = true; return builder; },
+      then(resolve: (value: { data: unknown; error: { message: string } | null }) => void) {
+        if (table === failTable) return resolve({ data: null, error: { message: `${table} unavailable` } });
+        const matches = (r: Row) => filters.every(([c, v]) => r[c] === v);
+
+        if (op === "insert") {
+          tables[table].push(...inserted);
+          return resolve({ data: single ? inserted[0] : inserted, error: null });
+        }
+        if (op === "delete") {
+          const removed = tables[table].filter(matches).map(r => r.id);
+          tables[table] = tables[table].filter(r => !matches(r));
+          if (table === "analyses") {
+            for (const child of ["analysis_accounts", "analysis_rings"]) {
+              tables[child] = tables[child].filter(r => !removed.includes(r.analysis_id));
+            }
+          }
+          return resolve({ data: null, error: null });
+        }
+        let rows = tables[table].filter(matches);
+        if (orderBy) {
+          const { column, ascending } = orderBy;
+          rows = [...rows].sort((a, b) => (String(a[column]) < String(b[column]) ? -1 : 1) * (ascending ? 1 : -1));
+        }
+        if (single && rows.length !== 1) return resolve({ data: null, error: { message: "not found" } });
+        return resolve({ data: single ? rows[0] : rows, error: null });
+      },
+    };
+    return builder;
+  };
+
+  return { client: { from } as unknown as SupabaseClient<Database>, tables };
+}
+
+const cycle = () => analyzeTransactions([tx("T1", "A", "B", 0), tx("T2", "B", "C", 1), tx("T3", "C", "A", 2)], () => {});
+
+describe("analysis store", () => {
+  it("saves projections and reopens the full result", async () => {
+    const { client, tables } = createStandIn();
+    const result = await cycle();
+
+    const id = await saveAnalysis(client, "cycle.csv", result);
+
+    expect(tables.analysis_accounts.map(r => r.account_id).sort()).toEqual(["A", "B", "C"]);
+    expect(tables.analysis_rings).toHaveLength(result.fraud_rings.length);
+
+    const loaded = await loadAnalysis(client, id);
+    expect(loaded.file_name).toBe("cycle.csv");
+    expect(loaded.result.fraud_rings).toEqual(result.fraud_rings);
+    expect(loaded.result.graph.edges[0].transactions[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it("lists newest first and deletes with children", async () => {
+    const { client, tables } = createStandIn();
+    const first = await saveAnalysis(client, "first.csv", await cycle());
+    const second = await saveAnalysis(client, "second.csv", await cycle());
+
+    expect((await listAnalyses(client)).map(a => a.id)).toEqual([second, first]);
+
+    await deleteAnalysis(client, second);
+    expect((await listAnalyses(client)).map(a => a.id)).toEqual([first]);
+    expect(tables.analysis_accounts.every(r => r.analysis_id === first)).toBe(true);
+  });
+
+  it("removes the parent row when a child insert fails", async () => {
+    const { client, tables } = createStandIn("analysis_rings");
+    await expect(saveAnalysis(client, "cycle.csv", await cycle())).rejects.toThrow("analysis_rings unavailable");
+    expect(tables.analyses).toEqual([]);
+  });
+});
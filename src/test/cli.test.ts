@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { run, EXIT_FAILURE, EXIT_OK, EXIT_USAGE } from "@/cli/run";
+
+const HEADER = "transaction_id,sender_id,receiver_id,amount,timestamp";
+
+describe("mulermoney CLI", () => {
+  let dir: string;
+  const file = (name: string, content: string) => {
+    const path = join(dir, name);
+    writeFileSync(path, content);
+    return path;
+  };
+  const capture = () => {
+    const out = { stdout: "", stderr: "" };
+    return { out, io: { stdout: (t: string) => { out.stdout += t; }, stderr: (t: string) => { out.stderr += t; } } };
+  };
+
+  beforeAll(() => { dir = mkdtempSync(join(tmpdir(), "mulermoney-")); });
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("analyzes a CSV path and writes the download JSON", async () => {
+    const input = file("cycle.csv", [
+      HEADER,
+      "T1,A,B,100,2024-01-01 10:00:00",
+      "T2,B,C,90,2024-01-01 11:00:00",
+      "T3,C,A,80,2024-01-01 12:00:00",
+    ].join("\n"));
+    const config = file("cfg.json", JSON.stringify({ cycle_max_length: 4 }));
+    const outPath = join(dir, "result.json");
+    const { io } = capture();
+
+    expect(await run(["analyze", input, "--config", config, "--out", outPath, "--quiet"], io)).toBe(EXIT_OK);
+
+    const output = JSON.parse(readFileSync(outPath, "utf8"));
+    expect(Object.keys(output)).toEqual(["suspicious_accounts", "fraud_rings", "summary", "config", "exclusions"]);
+    expect(output.fraud_rings[0].member_accounts).toEqual(["A", "B", "C"]);
+    expect(output.config.cycle_max_length).toBe(4);
+  });
+
+  it("appends later batches and writes the ring diff", async () => {
+    const day1 = file("day1.csv", `${HEADER}\nT1,A,B,100,2024-01-01 10:00:00\n`);
+    const day2 = file("day2.csv", `${HEADER}\nT2,B,C,90,2024-01-02 11:00:00\nT3,C,A,80,2024-01-02 12:00:00\n`);
+    const diffPath = join(dir, "diff.json");
+    const { out, io } = capture();
+
+    expect(await run(["analyze", day1, "--append", day2, "--diff", diffPath], io)).toBe(EXIT_OK);
+    expect(out.stderr).toContain(`Appended ${day2}: 1 new, 0 changed, 0 resolved rings`);
+    expect(JSON.parse(out.stdout).fraud_rings[0].member_accounts).toEqual(["A", "B", "C"]);
+    const diff = JSON.parse(readFileSync(diffPath, "utf8"));
+    expect(diff.new_rings[0].member_accounts).toEqual(["A", "B", "C"]);
+
+    expect(await run(["analyze", day1, "--diff", diffPath], capture().io)).toBe(EXIT_USAGE);
+  });
+
+  it("exits non-zero when ingestion fails", async () => {
+    const { out, io } = capture();
+    expect(await run(["analyze", file("bad.csv", "a,b\n1,2\n")], io)).toBe(EXIT_FAILURE);
+    expect(out.stderr).toContain("Missing required columns");
+    expect(out.stdout).toBe("");
+
+    const partial = file("partial.csv", `${HEADER}\nT1,A,B,100,2024-01-01 10:00:00\nT2,A,B,x,2024-01-01 10:00:00\n`);
+    expect(await run(["analyze", partial, "--strict", "--quiet"], capture().io)).toBe(EXIT_FAILURE);
+  });
+
+  it("rejects bad usage and invalid config", async () => {
+    expect(await run(["analyse", "x.csv"], capture().io)).toBe(EXIT_USAGE);
+    expect(await run(["analyze"], capture().io)).toBe(EXIT_USAGE);
+
+    const input = file("ok.csv", `${HEADER}\nT1,A,B,100,2024-01-01 10:00:00\n`);
+    const { out, io } = capture();
+    expect(await run(["analyze", input, "--config", file("bad-cfg.json", '{"cycle_max_length": 99}')], io)).toBe(EXIT_FAILURE);
+    expect(out.stderr).toContain("cycle_max_length must be ≤ 8");
+  });
+});
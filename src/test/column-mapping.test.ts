@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  findMatchingProfile,
+  loadMappingProfiles,
+  saveMappingProfile,
+  suggestMapping,
+  validateMapping,
+} from "@/lib/column-mapping";
+import { parseCSV } from "@/lib/csv-parser";
+
+const BANK_HEADERS = ["Txn Ref", "Debtor Account", "Creditor Account", "Value", "Value Date", "Narrative"];
+
+describe("suggestMapping", () => {
+  it("maps bank export headers through the synonym table", () => {
+    expect(suggestMapping(BANK_HEADERS)).toEqual({
+      transaction_id: "Txn Ref",
+      sender_id: "Debtor Account",
+      receiver_id: "Creditor Account",
+      amount: "Value",
+      timestamp: "Value Date",
+    });
+  });
+
+  it("leaves unknown columns unmapped", () => {
+    const mapping = suggestMapping(["foo", "amount"]);
+    expect(mapping).toEqual({ amount: "amount" });
+    expect(validateMapping(mapping, ["foo", "amount"])).toContain("transaction_id is not mapped");
+  });
+
+  it("rejects a header mapped twice", () => {
+    const mapping = { ...suggestMapping(BANK_HEADERS), receiver_id: "Debtor Account" };
+    expect(validateMapping(mapping, BANK_HEADERS)).toContain('"Debtor Account" is mapped to both sender_id and receiver_id');
+  });
+});
+
+describe("mapping profiles", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("persists profiles and finds one matching the file headers", () => {
+    const mapping = suggestMapping(BANK_HEADERS) as never;
+    saveMappingProfile({ name: "Bank export", mapping });
+    expect(loadMappingProfiles().map(p => p.name)).toEqual(["Bank export"]);
+    expect(findMatchingProfile(loadMappingProfiles(), BANK_HEADERS)?.name).toBe("Bank export");
+    expect(findMatchingProfile(loadMappingProfiles(), ["transaction_id"])).toBeUndefined();
+  });
+});
+
+describe("parseCSV with a mapping", () => {
+  it("reads the mapped source columns", async () => {
+    const file = new File([
+      "txn_ref,debtor_account,creditor_account,value,value_date\nR1,A,B,250,2024-02-01 09:00:00\nR2,A,B,x,2024-02-01",
+    ], "bank.csv");
+    const { transactions, report } = await parseCSV(file, {
+      mapping: {
+        transaction_id: "txn_ref",
+        sender_id: "debtor_account",
+        receiver_id: "creditor_account",
+        amount: "value",
+        timestamp: "value_date",
+      },
+    });
+    expect(transactions).toHaveLength(1);
+    expect(transactions[0]).toMatchObject({ transaction_id: "R1", sender_id: "A", receiver_id: "B", amount: 250 });
+    expect(report.rows_rejected[0].column).toBe("value");
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { parseCSV, rejectedRowsToCSV } from "@/lib/csv-parser";
+
+function csvFile(lines: string[]): File {
+  return new File([lines.join("\n")], "transactions.csv", { type: "text/csv" });
+}
+
+const HEADER = "transaction_id,sender_id,receiver_id,amount,timestamp";
+
+describe("parseCSV", () => {
+  it("reports rejected rows with line, column and reason, and accepts self-transfers", async () => {
+    const { transactions, report } = await parseCSV(csvFile([
+      HEADER,
+      "T1,A,B,100,2024-01-01 10:00:00",
+      "T2,A,B,abc,2024-01-01 10:00:00",
+      "T1,B,C,50,2024-01-01 11:00:00",
+      "T3,C,C,50,2024-01-01 12:00:00",
+      "T4,C,D,50,not-a-date",
+    ]));
+
+    expect(transactions.map(t => t.transaction_id)).toEqual(["T1", "T3"]);
+    expect(report.rows_read).toBe(5);
+    expect(report.rows_accepted).toBe(2);
+    expect(report.rows_rejected.map(r => [r.line, r.column])).toEqual([
+      [3, "amount"],
+      [4, "transaction_id"],
+      [6, "timestamp"],
+    ]);
+    expect(report.duplicate_transaction_ids).toEqual(["T1"]);
+    expect(report.self_transfers).toEqual(["T3"]);
+  });
+
+  it("counts blank lines and quoted line breaks in reported line numbers", async () => {
+    const { transactions, report } = await parseCSV(csvFile([
+      HEADER,
+      "T1,A,B,100,2024-01-01 10:00:00",
+      "",
+      'T2,"A',
+      'B",C,abc,2024-01-01 10:00:00',
+      "",
+      "T3,C,D,50,not-a-date",
+      "",
+    ]));
+
+    expect(transactions.map(t => t.transaction_id)).toEqual(["T1"]);
+    expect(report.rows_read).toBe(3);
+    expect(report.rows_rejected.map(r => [r.line, r.column])).toEqual([[4, "amount"], [7, "timestamp"]]);
+  });
+
+  it("returns a report instead of throwing when every row is invalid", async () => {
+    const { transactions, report } = await parseCSV(csvFile([HEADER, "T1,A,B,-5,2024-01-01"]));
+    expect(transactions).toHaveLength(0);
+    expect(report.rows_rejected[0].reason).toMatch(/invalid amount/);
+  });
+
+  it("rejects files with missing columns", async () => {
+    await expect(parseCSV(csvFile(["id,from,to", "1,A,B"]))).rejects.toThrow(/Missing required columns/);
+  });
+});
+
+describe("rejectedRowsToCSV", () => {
+  it("prefixes the original fields with line, column and reason", async () => {
+    const { report } = await parseCSV(csvFile([HEADER, "T1,A,B,0,2024-01-01"]));
+    expect(rejectedRowsToCSV(report).split(/\r?\n/)).toEqual([
+      `line,column,reason,${HEADER}`,
+      '2,amount,"invalid amount ""0""",T1,A,B,0,2024-01-01',
+    ]);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_DETECTION_CONFIG, resolveDetectionConfig } from "@/lib/detection-config";
+import { analyzeTransactions } from "@/lib/analyzer";
+import { tx } from "@/test/fixtures";
+
+describe("resolveDetectionConfig", () => {
+  it("returns the defaults when no overrides are given", () => {
+    expect(resolveDetectionConfig()).toEqual(DEFAULT_DETECTION_CONFIG);
+  });
+
+  it("applies overrides", () => {
+    const config = resolveDetectionConfig({ smurfing_min_counterparties: 5 });
+    expect(config.smurfing_min_counterparties).toBe(5);
+    expect(config.cycle_max_length).toBe(DEFAULT_DETECTION_CONFIG.cycle_max_length);
+  });
+
+  it("rejects out-of-range and unknown parameters", () => {
+    expect(() => resolveDetectionConfig({ cycle_min_length: 6, cycle_max_length: 4 })).toThrow(/cycle_min_length/);
+    expect(() => resolveDetectionConfig({ smurfing_window_hours: -1 })).toThrow(/smurfing_window_hours/);
+    expect(() => resolveDetectionConfig({ bogus: 1 } as never)).toThrow(/Unknown parameter: bogus/);
+  });
+});
+
+describe("analyzeTransactions config", () => {
+  // Six senders paying one collector within a few hours
+  const fanIn = Array.from({ length: 6 }, (_, i) => tx(`T${i}`, `S${i}`, "HUB", i));
+
+  it("echoes the effective config into the result", async () => {
+    const result = await analyzeTransactions(fanIn, () => {});
+    expect(result.config).toEqual(DEFAULT_DETECTION_CONFIG);
+    expect(result.fraud_rings).toHaveLength(0);
+  });
+
+  it("uses the configured fan-in threshold", async () => {
+    const result = await analyzeTransactions(fanIn, () => {}, { config: { smurfing_min_counterparties: 5 } });
+    expect(result.config.smurfing_min_counterparties).toBe(5);
+    expect(result.fraud_rings.map(r => r.pattern_type)).toEqual(["fan_in_72h"]);
+  });
+});
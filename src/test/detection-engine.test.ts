@@ -0,0 +1,403 @@
+import { describe, it, expect } from "vitest";
+import { analyzeTransactions } from "@/lib/analyzer";
+import {
+  detectCycles,
+  detectDormantReactivation,
+  detectPassThrough,
+  detectScatterGather,
+  detectShellNetworks,
+  detectStructuring,
+  detectVelocitySpikes,
+  robustBaseline,
+} from "@/lib/detection-engine";
+import { DEFAULT_DETECTION_CONFIG } from "@/lib/detection-config";
+import { TransactionGraph } from "@/lib/graph-engine";
+import type { Transaction } from "@/lib/types";
+import { base, tx } from "@/test/fixtures";
+
+describe("ring evidence", () => {
+  it("records the ordered cycle path, transactions, window and value", async () => {
+    const result = await analyzeTransactions([
+      tx("T1", "A", "B", 0, 500), tx("T2", "B", "C", 5, 480), tx("T3", "C", "A", 10, 450),
+    ], () => {});
+
+    const ring = result.fraud_rings[0];
+    const cycle = ring.evidence.find(e => e.pattern_type === "cycle_length_3")!;
+    // Rotation depends on the DFS start, but the order must follow the money
+    const rotated = [...cycle.path!.slice(cycle.path!.indexOf("A")), ...cycle.path!.slice(0, cycle.path!.indexOf("A"))];
+    expect(rotated).toEqual(["A", "B", "C"]);
+    expect([...cycle.transaction_ids].sort()).toEqual(["T1", "T2", "T3"]);
+    expect(cycle.window_start).toBe(new Date(base).toISOString());
+    expect(cycle.window_end).toBe(new Date(base + 10 * 3600_000).toISOString());
+    expect(cycle.total_value).toBe(1430);
+  });
+
+  it("records the hub and windowed transactions for fan-in", async () => {
+    const result = await analyzeTransactions([
+      ...Array.from({ length: 10 }, (_, i) => tx(`F${i}`, `S${i}`, "HUB", i)),
+      tx("OLD", "S0", "HUB", -500),
+    ], () => {});
+
+    const fanIn = result.fraud_rings.flatMap(r => r.evidence).find(e => e.pattern_type === "fan_in_72h")!;
+    expect(fanIn.hub_account).toBe("HUB");
+    expect(fanIn.transaction_ids).toHaveLength(10);
+    expect(fanIn.transaction_ids).not.toContain("OLD");
+  });
+});
+
+describe("temporal cycles", () => {
+  const config = { temporal_cycles: true, cycle_window_hours: 72 };
+
+  it("keeps cycles whose hops happen in order inside the window", async () => {
+    const result = await analyzeTransactions([
+      tx("T1", "A", "B", 0), tx("T2", "B", "C", 5), tx("T3", "C", "A", 10),
+    ], () => {}, { config });
+
+    const cycle = result.fraud_rings.flatMap(r => r.evidence).find(e => e.pattern_type === "cycle_length_3")!;
+    expect(cycle.transaction_ids).toEqual(["T1", "T2", "T3"]);
+    expect(cycle.path).toEqual(["A", "B", "C"]);
+  });
+
+  it("finds the ordering from any starting hop", async () => {
+    // Money actually starts at B: B→C, C→A, A→B
+    const result = await analyzeTransactions([
+      tx("T1", "A", "B", 20), tx("T2", "B", "C", 0), tx("T3", "C", "A", 10),
+    ], () => {}, { config });
+
+    const cycle = result.fraud_rings.flatMap(r => r.evidence).find(e => e.pattern_type === "cycle_length_3")!;
+    expect(cycle.transaction_ids).toEqual(["T2", "T3", "T1"]);
+  });
+
+  it("drops cycles in reverse chronological order or spread beyond the window", async () => {
+    const reversed = await analyzeTransactions([
+      tx("T1", "A", "B", 10), tx("T2", "B", "C", 5), tx("T3", "C", "A", 0),
+    ], () => {}, { config });
+    expect(reversed.fraud_rings.flatMap(r => r.evidence).some(e => e.pattern_type.startsWith("cycle"))).toBe(false);
+
+    const spread = await analyzeTransactions([
+      tx("T1", "A", "B", 0), tx("T2", "B", "C", 24 * 30), tx("T3", "C", "A", 24 * 60),
+    ], () => {}, { config });
+    expect(spread.fraud_rings.flatMap(r => r.evidence).some(e => e.pattern_type.startsWith("cycle"))).toBe(false);
+
+    const structural = await analyzeTransactions([
+      tx("T1", "A", "B", 10), tx("T2", "B", "C", 5), tx("T3", "C", "A", 0),
+    ], () => {});
+    expect(structural.fraud_rings.flatMap(r => r.evidence).some(e => e.pattern_type.startsWith("cycle"))).toBe(true);
+  });
+});
+
+describe("cycle enumeration", () => {
+  const clique = (n: number) => {
+    const ids = Array.from({ length: n }, (_, i) => `N${i}`);
+    return ids.flatMap((from, i) => ids.filter(to => to !== from).map((to, j) => tx(`${i}_${j}`, from, to, i)));
+  };
+
+  it("finds each cycle once and warns nothing below the cap", () => {
+    const graph = new TransactionGraph(clique(4));
+    const warnings: string[] = [];
+    const rings = detectCycles(graph, { ...DEFAULT_DETECTION_CONFIG, cycle_max_length: 4 }, warnings);
+
+    // Every 3-subset is a subset of the single 4-member set, which survives
+    expect(rings.map(r => r.member_accounts)).toEqual([["N0", "N1", "N2", "N3"]]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("stops a dense component at the cap and reports it", () => {
+    const graph = new TransactionGraph(clique(8));
+    const warnings: string[] = [];
+    detectCycles(graph, { ...DEFAULT_DETECTION_CONFIG, cycle_max_per_component: 50 }, warnings);
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain("stopped at 50 cycles");
+    expect(warnings[0]).toContain("8 accounts");
+  });
+
+  it("surfaces warnings on the analysis result", async () => {
+    const result = await analyzeTransactions(clique(6), () => {}, { config: { cycle_max_per_component: 10 } });
+    expect(result.warnings).toHaveLength(1);
+  });
+});
+
+describe("pass-through accounts", () => {
+  const singlePair = { ...DEFAULT_DETECTION_CONFIG, pass_through_min_transactions: 2, pass_through_min_value: 0 };
+
+  it("flags an account forwarding most of what it receives within the dwell time", () => {
+    const graph = new TransactionGraph([tx("T1", "S", "M", 0, 1000), tx("T2", "M", "R", 3, 950)]);
+    const [ring] = detectPassThrough(graph, singlePair);
+
+    expect(ring.pattern_type).toBe("pass_through");
+    expect(ring.member_accounts).toEqual(["M", "R", "S"]);
+    expect(ring.evidence[0]).toMatchObject({
+      hub_account: "M",
+      transaction_ids: ["T1", "T2"],
+      total_value: 950,
+      median_dwell_hours: 3,
+      pass_through_ratio: 0.95,
+    });
+    expect(["M", "R", "S"].map(id => graph.nodes.get(id)!.isSuspicious)).toEqual([true, false, false]);
+  });
+
+  it("does not flag a single receive-and-forward pair", async () => {
+    const graph = new TransactionGraph([tx("T1", "S", "M", 0, 5000), tx("T2", "M", "R", 3, 4950)]);
+    expect(detectPassThrough(graph)).toEqual([]);
+
+    const result = await analyzeTransactions([
+      tx("T1", "A", "B", 0, 500), tx("T2", "B", "C", 5, 480), tx("T3", "C", "A", 10, 450),
+    ], () => {});
+    const patterns = result.suspicious_accounts.flatMap(a => a.detected_patterns);
+    expect(patterns).not.toContain("pass_through");
+  });
+
+  it("requires a minimum forwarded value", () => {
+    const graph = new TransactionGraph([
+      tx("I1", "S1", "M", 0, 500), tx("O1", "M", "R1", 2, 500),
+      tx("I2", "S2", "M", 10, 500), tx("O2", "M", "R2", 12, 500),
+    ]);
+    expect(detectPassThrough(graph)).toEqual([]);
+    expect(detectPassThrough(graph, { ...DEFAULT_DETECTION_CONFIG, pass_through_min_value: 1000 })).toHaveLength(1);
+  });
+
+  it("gives the pattern to the pass-through account but not its counterparties", async () => {
+    const result = await analyzeTransactions([
+      tx("T1", "A", "B", 0, 500), tx("T2", "B", "C", 5, 480), tx("T3", "C", "A", 10, 450),
+    ], () => {}, { config: { pass_through_min_transactions: 2, pass_through_min_value: 0 } });
+    const patterns = (id: string) => result.suspicious_accounts.find(a => a.account_id === id)!.detected_patterns;
+    expect(patterns("A")).not.toContain("pass_through");
+    expect(patterns("B")).toContain("pass_through");
+    expect(patterns("C")).toContain("pass_through");
+  });
+
+  it("reports the median dwell over every matched flow", () => {
+    const graph = new TransactionGraph([
+      tx("I1", "S1", "M", 0), tx("O1", "M", "R1", 2),
+      tx("I2", "S2", "M", 10), tx("O2", "M", "R2", 14),
+      tx("I3", "S3", "M", 20), tx("O3", "M", "R3", 30),
+    ]);
+    const [ring] = detectPassThrough(graph);
+    expect(ring.evidence[0].median_dwell_hours).toBe(4);
+    expect(ring.evidence[0].pass_through_ratio).toBe(1);
+  });
+
+  it("ignores slow forwarding and accounts that retain their funds", () => {
+    const slow = new TransactionGraph([tx("T1", "S", "M", 0), tx("T2", "M", "R", 30)]);
+    const retained = new TransactionGraph([tx("T1", "S", "M", 0), tx("T2", "M", "R", 1, 500)]);
+    expect(detectPassThrough(slow, singlePair)).toEqual([]);
+    expect(detectPassThrough(retained, singlePair)).toEqual([]);
+    expect(detectPassThrough(slow, { ...singlePair, pass_through_max_dwell_hours: 48 })).toHaveLength(1);
+    expect(detectPassThrough(retained, { ...singlePair, pass_through_min_ratio: 0.5 })).toHaveLength(1);
+  });
+});
+
+describe("structuring", () => {
+  const signals = (graph: TransactionGraph) =>
+    detectStructuring(graph).flatMap(r => r.evidence.map(e => [e.structuring_signal, e.transaction_ids]));
+
+  it("flags repeated amounts just below the reporting threshold", () => {
+    const graph = new TransactionGraph([
+      tx("D1", "S1", "M", 0, 9500), tx("D2", "S2", "M", 20, 9200), tx("D3", "S3", "M", 40, 9900),
+    ]);
+    const [ring] = detectStructuring(graph);
+    expect(ring.pattern_type).toBe("structuring");
+    expect(ring.member_accounts).toEqual(["M", "S1", "S2", "S3"]);
+    expect(ring.evidence[0]).toMatchObject({ hub_account: "M", structuring_signal: "sub_threshold", total_value: 28600 });
+    expect(ring.member_accounts.filter(id => graph.nodes.get(id)!.isSuspicious)).toEqual(["M"]);
+  });
+
+  it("flags clusters of round amounts", () => {
+    const graph = new TransactionGraph([
+      tx("P1", "M", "R1", 0, 5000), tx("P2", "M", "R2", 10, 6000), tx("P3", "M", "R3", 20, 7500),
+    ]);
+    expect(signals(graph)).toEqual([["round_amounts", ["P1", "P2", "P3"]]]);
+  });
+
+  it("checks round amounts before currency conversion", () => {
+    // EUR 6,000 / 7,000 / 8,000 converted at 1.0837
+    const eur = (id: string, hours: number, original: number): Transaction =>
+      ({ ...tx(id, "M", `R${id}`, hours, Math.round(original * 1.0837 * 100) / 100), original_amount: original, currency: "EUR" });
+    const graph = new TransactionGraph([eur("P1", 0, 6000), eur("P2", 10, 7000), eur("P3", 20, 8000)]);
+    expect(signals(graph)).toEqual([["round_amounts", ["P1", "P2", "P3"]]]);
+  });
+
+  it("matches smaller receipts that add up to a larger transfer", () => {
+    const graph = new TransactionGraph([
+      tx("D1", "S1", "M", 0, 3000), tx("D2", "S2", "M", 5, 4100), tx("D3", "S3", "M", 8, 4800),
+      tx("W1", "M", "X", 10, 12000),
+    ]);
+    expect(signals(graph)).toEqual([["split", ["D3", "D2", "D1", "W1"]]]);
+  });
+
+  it("ignores amounts spread beyond the window or too few to repeat", () => {
+    const spread = new TransactionGraph([
+      tx("D1", "S1", "M", 0, 9500), tx("D2", "S2", "M", 50, 9200), tx("D3", "S3", "M", 100, 9900),
+    ]);
+    const few = new TransactionGraph([tx("D1", "S1", "M", 0, 9500), tx("D2", "S2", "M", 1, 9200)]);
+    expect(detectStructuring(spread)).toEqual([]);
+    expect(detectStructuring(few)).toEqual([]);
+  });
+});
+
+describe("scatter-gather", () => {
+  const vias = ["I1", "I2", "I3", "I4", "I5"];
+  const scatter = vias.map((via, i) => tx(`S${i}`, "SRC", via, i));
+  const gather = (gatherHours = 10) => vias.map((via, i) => tx(`G${i}`, via, "SINK", gatherHours + i, 950));
+
+  it("links a source and a collector through disjoint intermediaries", () => {
+    const [ring] = detectScatterGather(new TransactionGraph([...scatter, ...gather()]));
+
+    expect(ring.pattern_type).toBe("scatter_gather");
+    expect(ring.member_accounts).toEqual(["I1", "I2", "I3", "I4", "I5", "SINK", "SRC"]);
+    expect(ring.evidence[0]).toMatchObject({
+      source_account: "SRC",
+      hub_account: "SINK",
+      intermediaries: vias,
+      total_value: 5000,
+      value_conserved: 0.95,
+      elapsed_hours: 14,
+    });
+  });
+
+  it("needs enough intermediaries inside one window", () => {
+    expect(detectScatterGather(new TransactionGraph([...scatter, ...gather().slice(1)]))).toEqual([]);
+    expect(detectScatterGather(new TransactionGraph([...scatter, ...gather(200)]))).toEqual([]);
+    expect(detectScatterGather(
+      new TransactionGraph([...scatter, ...gather().slice(1)]),
+      { ...DEFAULT_DETECTION_CONFIG, scatter_gather_min_intermediaries: 4 }
+    )).toHaveLength(1);
+  });
+
+  it("finds the pattern when a later batch completes it", () => {
+    const graph = new TransactionGraph(scatter);
+    const touched = graph.addTransactions(gather());
+    expect(detectScatterGather(graph, DEFAULT_DETECTION_CONFIG, touched)).toHaveLength(1);
+  });
+});
+
+describe("shell chain value conservation", () => {
+  const relay = (second: number, third: number) => [
+    tx("T1", "A", "B", 0, 1000), tx("T2", "B", "C", 1, second), tx("T3", "C", "D", 2, third),
+  ];
+
+  it("reports per-hop retention and end-to-end conservation", () => {
+    const rings = detectShellNetworks(new TransactionGraph(relay(980, 970)));
+    const full = rings.find(r => r.member_accounts.length === 4)!;
+    expect(full.evidence[0]).toMatchObject({ path: ["A", "B", "C", "D"], hop_retention: [0.02, 0.01], value_conserved: 0.97 });
+  });
+
+  it("rejects chains where a hop passes on too little of what it received", () => {
+    const graph = new TransactionGraph([tx("T1", "A", "B", 0, 1000), tx("T2", "B", "C", 1, 300), tx("T3", "B", "X", 1, 700)]);
+    expect(detectShellNetworks(graph).map(r => r.member_accounts)).toEqual([["A", "B", "X"]]);
+  });
+
+  it("scores a clean relay above a leaky one", async () => {
+    const bonus = async (txs: Transaction[]) => (await analyzeTransactions(txs, () => {}))
+      .suspicious_accounts.find(a => a.account_id === "B")!
+      .score_breakdown.find(f => f.factor === "value_conserved");
+    expect((await bonus(relay(980, 970)))?.delta).toBe(10);
+    expect(await bonus(relay(700, 650))).toBeUndefined();
+  });
+});
+
+describe("dormant reactivation", () => {
+  const day = (d: number) => d * 24;
+  const history = [tx("H1", "P", "M", day(0), 1000)];
+  const burst = [
+    tx("B1", "S1", "M", day(200), 5000), tx("B2", "M", "R1", day(201), 4800), tx("B3", "S2", "M", day(203), 3000),
+  ];
+
+  it("builds a daily activity timeline of active days", () => {
+    const graph = new TransactionGraph([...history, ...burst]);
+    expect(graph.getActivityTimeline("M")).toEqual([
+      { start: base, transactions: 1, inValue: 1000, outValue: 0 },
+      { start: base + day(200) * 3600_000, transactions: 1, inValue: 5000, outValue: 0 },
+      { start: base + day(201) * 3600_000, transactions: 1, inValue: 0, outValue: 4800 },
+      { start: base + day(203) * 3600_000, transactions: 1, inValue: 3000, outValue: 0 },
+    ]);
+  });
+
+  it("flags a long idle gap followed by a high-value burst", () => {
+    const graph = new TransactionGraph([...history, ...burst]);
+    const [ring] = detectDormantReactivation(graph);
+    expect(ring.pattern_type).toBe("dormant_reactivation");
+    expect(ring.member_accounts).toEqual(["M", "R1", "S1", "S2"]);
+    expect(ring.member_accounts.filter(id => graph.nodes.get(id)!.isSuspicious)).toEqual(["M"]);
+    expect(ring.evidence[0]).toMatchObject({
+      hub_account: "M", dormant_days: 199, transaction_ids: ["B1", "B2", "B3"], total_value: 12800,
+    });
+  });
+
+  it("ignores short gaps and small bursts", () => {
+    const shortGap = [tx("H1", "P", "M", day(150), 1000), ...burst];
+    expect(detectDormantReactivation(new TransactionGraph(shortGap))).toEqual([]);
+    expect(detectDormantReactivation(new TransactionGraph([...history, ...burst.slice(0, 2)]))).toEqual([]);
+    expect(detectDormantReactivation(
+      new TransactionGraph([...history, ...burst]),
+      { ...DEFAULT_DETECTION_CONFIG, dormant_burst_min_value: 20000 }
+    )).toEqual([]);
+  });
+
+  it("ignores transactions with excluded entities", () => {
+    const graph = new TransactionGraph([...history, ...burst]);
+    graph.nodes.get("S1")!.entity = { account_id: "S1", entity_type: "exchange", reason: "Exchange", action: "exclude" };
+    expect(detectDormantReactivation(graph)).toEqual([]);
+  });
+});
+
+describe("velocity spikes", () => {
+  const day = (d: number) => d * 24;
+  // One payment a day for a month, then eight in a day
+  const history = Array.from({ length: 30 }, (_, d) => tx(`H${d}`, "P", "V", day(d), 100 + (d % 5) * 20));
+  const burst = Array.from({ length: 8 }, (_, i) => tx(`B${i}`, `S${i}`, "V", day(30) + i, 1000));
+
+  it("uses the MAD, falling back to the mean absolute deviation when it is 0", () => {
+    expect(robustBaseline([5, 5, 5, 5, 15])).toEqual({ median: 5, scale: expect.closeTo(1.2533 * 10 / 5, 5) });
+    expect(robustBaseline([10, 20, 30, 40, 50])).toEqual({ median: 30, scale: expect.closeTo(1.4826 * 10, 5) });
+    expect(robustBaseline([0, 0, 0, 0, 0])).toEqual({ median: 0, scale: 1 });
+  });
+
+  it("flags a burst far above the account's baseline and the population", () => {
+    const graph = new TransactionGraph([...history, ...burst]);
+    const [ring] = detectVelocitySpikes(graph);
+    expect(ring.pattern_type).toBe("velocity_spike");
+    expect(ring.member_accounts).toEqual(["S0", "S1", "S2", "S3", "S4", "S5", "S6", "S7", "V"]);
+    expect(ring.member_accounts.filter(id => graph.nodes.get(id)!.isSuspicious)).toEqual(["V"]);
+    expect(ring.evidence[0]).toMatchObject({
+      hub_account: "V", velocity_metric: "value", baseline_per_day: 140, total_value: 8000,
+      transaction_ids: burst.map(t => t.transaction_id),
+    });
+    expect(ring.evidence[0].z_score).toBeGreaterThan(3.5);
+    expect(ring.evidence[0].population_z_score).toBeGreaterThan(3.5);
+  });
+
+  it("describes the spike in the flagged account's score breakdown", async () => {
+    const result = await analyzeTransactions([...history, ...burst], () => {});
+    const v = result.suspicious_accounts.find(a => a.account_id === "V")!;
+    expect(v.score_breakdown.find(f => f.factor === "velocity_spike")?.evidence).toMatch(
+      /^8 transactions in a burst; peak-day value is [\d.]+ robust SDs above its 30-day baseline \(median 140\.0\/day\)/
+    );
+  });
+
+  it("reports the whole of the strongest burst after an earlier, weaker one", () => {
+    const payments = (prefix: string, d: number, count: number, amount: number) =>
+      Array.from({ length: count }, (_, i) => tx(`${prefix}${i}`, `${prefix}S${i}`, "V", day(d) + i, amount));
+    const second = [...payments("X", 40, 6, 500), ...payments("Y", 41, 8, 2000)];
+    const [ring] = detectVelocitySpikes(new TransactionGraph([...history, ...payments("W", 30, 6, 1000), ...second]));
+    expect(ring.evidence[0].transaction_ids).toEqual(second.map(t => t.transaction_id));
+  });
+
+  it("needs enough history and enough transactions on the day", () => {
+    expect(detectVelocitySpikes(new TransactionGraph([...history.slice(20), ...burst]))).toEqual([]);
+    expect(detectVelocitySpikes(new TransactionGraph([...history, ...burst.slice(0, 4)]))).toEqual([]);
+    expect(detectVelocitySpikes(
+      new TransactionGraph([...history, ...burst]),
+      { ...DEFAULT_DETECTION_CONFIG, velocity_z_threshold: 1e6 }
+    )).toEqual([]);
+  });
+
+  it("ignores transactions with excluded entities", () => {
+    const graph = new TransactionGraph([...history, ...burst]);
+    for (const id of ["S0", "S1", "S2", "S3"]) {
+      graph.nodes.get(id)!.entity = { account_id: id, entity_type: "exchange", reason: "Exchange", action: "exclude" };
+    }
+    expect(detectVelocitySpikes(graph)).toEqual([]);
+  });
+});
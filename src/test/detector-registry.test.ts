@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { DETECTORS, detectorForPattern, flaggedMembers, getPatternDefinition, patternSeverity } from "@/lib/detector-registry";
+import { mergeOverlappingRings } from "@/lib/ring-merger";
+import { analyzeTransactions } from "@/lib/analyzer";
+import type { FraudRing } from "@/lib/types";
+import { tx } from "@/test/fixtures";
+
+const ring = (pattern_type: string, members: string[]): FraudRing => ({
+  ring_id: pattern_type, member_accounts: members, pattern_type, risk_score: 50, evidence: [],
+});
+
+describe("detector registry", () => {
+  it("maps every pattern to exactly one detector", () => {
+    const patterns = DETECTORS.flatMap(d => d.patterns.map(p => p.pattern_type));
+    expect(new Set(patterns).size).toBe(patterns.length);
+    expect(detectorForPattern("fan_out_72h")?.id).toBe("smurfing");
+    expect(detectorForPattern("cycle_length_7")?.id).toBe("cycle");
+    expect(detectorForPattern("watchlist_proximity_1")).toBeUndefined();
+  });
+
+  it("keeps the severity order used when merging rings", () => {
+    const order = ["shell_network", "cycle_length_5", "cycle_length_4", "cycle_length_3", "fan_in_72h", "fan_out_72h", "unknown"];
+    const ranks = order.map(patternSeverity);
+    expect([...ranks].sort((a, b) => a - b)).toEqual(ranks);
+
+    const [merged] = mergeOverlappingRings([ring("fan_in_72h", ["A", "B", "C"]), ring("cycle_length_4", ["A", "B", "C", "D"])]);
+    expect(merged.pattern_type).toBe("cycle_length_4");
+  });
+
+  it("flags only the subject of subject-only patterns", () => {
+    const passThrough = { ...ring("pass_through", ["M", "R", "S"]), evidence: [{ hub_account: "M" } as FraudRing["evidence"][number]] };
+    expect(flaggedMembers(passThrough)).toEqual(["M"]);
+    expect(flaggedMembers(ring("cycle_length_3", ["A", "B", "C"]))).toEqual(["A", "B", "C"]);
+  });
+
+  it("scores patterns by their registered weight", async () => {
+    const cycle = ["A", "B", "C", "D", "E", "F"];
+    const result = await analyzeTransactions(
+      cycle.map((from, i) => tx(`T${i}`, from, cycle[(i + 1) % cycle.length], i)),
+      () => {},
+      { config: { cycle_max_length: 6 } }
+    );
+    const a = result.suspicious_accounts.find(acc => acc.account_id === "A")!;
+    expect(a.score_breakdown.find(f => f.factor === "cycle_length_6")?.delta).toBe(getPatternDefinition("cycle_length_6")!.weight);
+  });
+});
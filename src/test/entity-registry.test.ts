@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { analyzeTransactions } from "@/lib/analyzer";
+import { parseEntityRegistry } from "@/lib/entity-registry";
+import type { RegisteredEntity } from "@/lib/types";
+import { tx } from "@/test/fixtures";
+
+const payroll = Array.from({ length: 12 }, (_, i) => tx(`P${i}`, "PAYROLL", `EMP${i}`, i));
+const cycle = [tx("T1", "A", "EXCH", 0), tx("T2", "EXCH", "B", 1), tx("T3", "B", "A", 2)];
+
+const entity = (account_id: string, action: RegisteredEntity["action"] = "exclude"): RegisteredEntity => ({
+  account_id, entity_type: "payroll", reason: "Monthly salaries", action,
+});
+
+describe("entity registry", () => {
+  it("parses the registry CSV and rejects bad rows", () => {
+    expect(parseEntityRegistry([
+      "account_id,entity_type,reason,action",
+      "PAYROLL,Payroll,Monthly salaries,",
+      "SHOP,merchant,Card acquirer,down_weight",
+    ].join("\n"))).toEqual([
+      { account_id: "PAYROLL", entity_type: "payroll", reason: "Monthly salaries", action: "exclude" },
+      { account_id: "SHOP", entity_type: "merchant", reason: "Card acquirer", action: "down_weight" },
+    ]);
+
+    expect(() => parseEntityRegistry("account_id,entity_type\nA,payroll")).toThrow("missing columns: reason");
+    expect(() => parseEntityRegistry("account_id,entity_type,reason\nA,casino,x\nA,payroll,")).toThrow(
+      /line 2: entity_type must be one of.*\nline 3: missing reason/
+    );
+  });
+
+  it("excludes registered hubs from detection and lists them", async () => {
+    const plain = await analyzeTransactions(payroll, () => {});
+    expect(plain.suspicious_accounts.some(a => a.account_id === "PAYROLL")).toBe(true);
+
+    const result = await analyzeTransactions(payroll, () => {}, { registry: [entity("PAYROLL")] });
+    expect(result.suspicious_accounts).toEqual([]);
+    expect(result.exclusions).toEqual([{
+      account_id: "PAYROLL", source: "registry", entity_type: "payroll", reason: "Monthly salaries", action: "excluded",
+    }]);
+  });
+
+  it("breaks cycles routed through an excluded entity", async () => {
+    const result = await analyzeTransactions(cycle, () => {}, { registry: [{ ...entity("EXCH"), entity_type: "exchange" }] });
+    expect(result.fraud_rings.some(r => r.pattern_type.startsWith("cycle"))).toBe(false);
+  });
+
+  it("keeps excluded entities out of rings as counterparties", async () => {
+    const senders = Array.from({ length: 10 }, (_, i) => tx(`F${i}`, i === 0 ? "EXCH" : `S${i}`, "HUB", i));
+    const plain = await analyzeTransactions(senders, () => {});
+    expect(plain.fraud_rings.some(r => r.member_accounts.includes("EXCH"))).toBe(true);
+
+    const result = await analyzeTransactions(senders, () => {}, { registry: [{ ...entity("EXCH"), entity_type: "exchange" }] });
+    expect(result.fraud_rings.some(r => r.member_accounts.includes("EXCH"))).toBe(false);
+    expect(result.suspicious_accounts.some(a => a.account_id === "EXCH")).toBe(false);
+  });
+
+  it("down-weights instead of excluding when asked", async () => {
+    const result = await analyzeTransactions(payroll, () => {}, { registry: [entity("PAYROLL", "down_weight")] });
+    const hub = result.suspicious_accounts.find(a => a.account_id === "PAYROLL")!;
+    expect(hub.score_breakdown.find(f => f.factor === "registered_entity")).toEqual({
+      factor: "registered_entity", delta: -30, evidence: "Registered payroll: Monthly salaries",
+    });
+    expect(result.exclusions[0].action).toBe("down_weighted");
+  });
+
+  it("reports volume-threshold exclusions and can turn the heuristic off", async () => {
+    const busy = Array.from({ length: 12 }, (_, i) => tx(`B${i}`, `S${i}`, "HUB", i));
+    const config = { legitimate_volume_threshold: 10 };
+
+    const heuristic = await analyzeTransactions(busy, () => {}, { config });
+    expect(heuristic.suspicious_accounts.some(a => a.account_id === "HUB")).toBe(false);
+    expect(heuristic.exclusions.map(e => [e.account_id, e.source])).toEqual([["HUB", "volume_threshold"]]);
+    expect(heuristic.exclusions[0].reason).toMatch(/^12 transactions exceed .*pass-through.*velocity spikes$/);
+
+    const disabled = await analyzeTransactions(busy, () => {}, { config: { legitimate_volume_threshold: 0 } });
+    expect(disabled.suspicious_accounts.some(a => a.account_id === "HUB")).toBe(true);
+    expect(disabled.exclusions).toEqual([]);
+  });
+});
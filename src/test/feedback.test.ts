@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { analyzeTransactions } from "@/lib/analyzer";
+import { DEFAULT_DETECTION_CONFIG } from "@/lib/detection-config";
+import { createFeedbackIndex, parseDispositions } from "@/lib/feedback";
+import type { AccountDisposition, Transaction } from "@/lib/types";
+
+const asOf = new Date("2024-03-01T00:00:00Z");
+const cleared = (account_id: string, pattern_type: string | null, decided_at = "2024-02-01T00:00:00Z"): AccountDisposition => ({
+  account_id, pattern_type, disposition: "false_positive", decided_at,
+});
+
+describe("feedback index", () => {
+  it("clears an account only when every flagged pattern was cleared", () => {
+    const index = createFeedbackIndex([cleared("A", "fan_in_72h")], DEFAULT_DETECTION_CONFIG, asOf);
+    expect(index.clearanceFor("A", ["fan_in_72h"])).not.toBeNull();
+    expect(index.clearanceFor("A", ["fan_in_72h", "cycle_length_3"])).toBeNull();
+    expect(index.clearanceFor("B", ["fan_in_72h"])).toBeNull();
+
+    const blanket = createFeedbackIndex([cleared("A", null)], DEFAULT_DETECTION_CONFIG, asOf);
+    expect(blanket.clearanceFor("A", ["fan_in_72h", "cycle_length_3"])).not.toBeNull();
+  });
+
+  it("ignores expired decisions and lets the latest decision win", () => {
+    const expired = createFeedbackIndex([cleared("A", null, "2023-01-01T00:00:00Z")], DEFAULT_DETECTION_CONFIG, asOf);
+    expect(expired.clearanceFor("A", ["shell_network"])).toBeNull();
+
+    const reconfirmed = createFeedbackIndex([
+      cleared("A", "shell_network", "2024-02-01T00:00:00Z"),
+      { ...cleared("A", "shell_network", "2024-02-10T00:00:00Z"), disposition: "confirmed" },
+    ], DEFAULT_DETECTION_CONFIG, asOf);
+    expect(reconfirmed.clearanceFor("A", ["shell_network"])).toBeNull();
+  });
+
+  it("takes the newer of a pattern-specific and a blanket decision", () => {
+    const confirmed = (pattern_type: string | null, decided_at: string): AccountDisposition =>
+      ({ ...cleared("A", pattern_type, decided_at), disposition: "confirmed" });
+
+    const blanketLater = createFeedbackIndex([
+      confirmed("shell_network", "2024-02-01T00:00:00Z"),
+      cleared("A", null, "2024-02-10T00:00:00Z"),
+    ], DEFAULT_DETECTION_CONFIG, asOf);
+    expect(blanketLater.clearanceFor("A", ["shell_network"])?.pattern_type).toBeNull();
+
+    const specificLater = createFeedbackIndex([
+      cleared("A", null, "2024-02-01T00:00:00Z"),
+      confirmed("shell_network", "2024-02-10T00:00:00Z"),
+    ], DEFAULT_DETECTION_CONFIG, asOf);
+    expect(specificLater.clearanceFor("A", ["shell_network"])).toBeNull();
+    expect(specificLater.clearanceFor("A", ["fan_in_72h"])).not.toBeNull();
+  });
+
+  it("validates disposition files", () => {
+    expect(parseDispositions([{ account_id: "A", disposition: "false_positive", decided_at: "2024-01-01" }]))
+      .toEqual([{ account_id: "A", pattern_type: null, disposition: "false_positive", decided_at: "2024-01-01" }]);
+    expect(() => parseDispositions({})).toThrow("JSON array");
+    expect(() => parseDispositions([{ account_id: "A", disposition: "maybe", decided_at: "2024-01-01" }])).toThrow("disposition");
+  });
+});
+
+describe("feedback in analysis", () => {
+  const base = Date.UTC(2024, 1, 20);
+  const tx = (id: string, from: string, to: string, hours: number): Transaction => ({
+    transaction_id: id, sender_id: from, receiver_id: to, amount: 1000, timestamp: new Date(base + hours * 3600_000),
+  });
+  const cycle = [tx("T1", "A", "B", 0), tx("T2", "B", "C", 1), tx("T3", "C", "A", 2)];
+  const feedback = [cleared("A", null)];
+
+  it("down-weights cleared accounts and counts them", async () => {
+    const plain = await analyzeTransactions(cycle, () => {});
+    const result = await analyzeTransactions(cycle, () => {}, { feedback, asOf });
+
+    const before = plain.suspicious_accounts.find(a => a.account_id === "A")!;
+    const after = result.suspicious_accounts.find(a => a.account_id === "A")!;
+    expect(after.score_breakdown.find(f => f.factor === "analyst_feedback")?.delta).toBe(-30);
+    // Compare unclamped: the cycle's members score above 100 before feedback
+    const raw = before.score_breakdown.filter(f => f.factor !== "clamp").reduce((sum, f) => sum + f.delta, 0);
+    expect(after.suspicion_score).toBe(Math.min(100, raw - 30));
+    expect(result.summary.suppressed_by_feedback).toBe(1);
+    expect(plain.summary.suppressed_by_feedback).toBe(0);
+  });
+
+  it("drops cleared accounts in suppress mode", async () => {
+    const result = await analyzeTransactions(cycle, () => {}, { feedback, asOf, config: { feedback_suppress: true } });
+    expect(result.suspicious_accounts.map(a => a.account_id).sort()).toEqual(["B", "C"]);
+    expect(result.summary.suspicious_accounts_flagged).toBe(2);
+    expect(result.summary.suppressed_by_feedback).toBe(1);
+  });
+});
@@ -0,0 +1,13 @@
+import type { Transaction } from "@/lib/types";
+
+/** Timestamp of hour 0 in the test fixtures */
+export const base = Date.UTC(2024, 0, 1);
+
+/** A transaction `hours` after {@link base} */
+export const tx = (id: string, from: string, to: string, hours: number, amount = 1000): Transaction => ({
+  transaction_id: id,
+  sender_id: from,
+  receiver_id: to,
+  amount,
+  timestamp: new Date(base + hours * 3600_000),
+});
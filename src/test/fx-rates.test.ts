@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { createFxConverter, parseFxRates } from "@/lib/fx-rates";
+import { parseCSV } from "@/lib/csv-parser";
+import { TransactionGraph } from "@/lib/graph-engine";
+
+const RATES_JSON = JSON.stringify({
+  base: "USD",
+  rates: {
+    "2024-01-12": { EUR: 0.9, GBP: 0.8 },
+    "2024-01-15": { EUR: 0.95 },
+  },
+});
+
+describe("parseFxRates", () => {
+  it("reads CSV and JSON into the same table", () => {
+    const csv = "date,base,currency,rate\n2024-01-12,USD,EUR,0.9\n2024-01-12,USD,GBP,0.8\n2024-01-15,USD,EUR,0.95";
+    expect(parseFxRates(csv, "csv")).toEqual(parseFxRates(RATES_JSON, "json"));
+  });
+
+  it("rejects non-positive rates", () => {
+    expect(() => parseFxRates('{"base":"USD","rates":{"2024-01-01":{"EUR":0}}}', "json")).toThrow(/Invalid FX rate/);
+  });
+});
+
+describe("createFxConverter", () => {
+  const table = parseFxRates(RATES_JSON, "json");
+
+  it("converts through the base using the latest rate on or before the date", () => {
+    const toUsd = createFxConverter(table, "USD");
+    expect(toUsd(90, "EUR", new Date(2024, 0, 13))).toBe(100);
+    expect(toUsd(95, "EUR", new Date(2024, 0, 15))).toBe(100);
+    // GBP is only quoted on the 12th
+    expect(toUsd(80, "GBP", new Date(2024, 0, 20))).toBe(100);
+    expect(toUsd(80, "GBP", new Date(2024, 0, 1))).toBeNull();
+  });
+
+  it("converts between two non-base currencies", () => {
+    const toEur = createFxConverter(table, "EUR");
+    expect(toEur(80, "GBP", new Date(2024, 0, 12))).toBe(90);
+  });
+});
+
+describe("multi-currency ingestion", () => {
+  it("normalizes amounts and keeps original-currency totals on the graph", async () => {
+    const file = new File([
+      "transaction_id,sender_id,receiver_id,amount,timestamp,currency\n" +
+      "T1,A,B,90,2024-01-12 10:00:00,EUR\n" +
+      "T2,A,B,50,2024-01-12 11:00:00,\n" +
+      "T3,A,B,10,2024-01-12 12:00:00,JPY\n",
+    ], "fx.csv");
+    const { transactions, report } = await parseCSV(file, { fxRates: parseFxRates(RATES_JSON, "json") });
+
+    expect(transactions.map(t => [t.amount, t.original_amount, t.currency])).toEqual([
+      [100, 90, "EUR"],
+      [50, 50, "USD"],
+    ]);
+    expect(report.currencies).toEqual({ EUR: 1, USD: 1 });
+    expect(report.rows_rejected[0]).toMatchObject({ line: 4, column: "currency" });
+
+    const graph = new TransactionGraph(transactions);
+    const edge = graph.edges.get("A->B")!;
+    expect(edge.totalAmount).toBe(150);
+    expect(edge.totalAmountByCurrency).toEqual({ EUR: 90, USD: 50 });
+    expect(graph.nodes.get("B")!.totalInByCurrency).toEqual({ EUR: 90, USD: 50 });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { analyzeBatch, analyzeTransactions, restoreSnapshot } from "@/lib/analyzer";
+import { TransactionGraph } from "@/lib/graph-engine";
+import { deserializeResult, serializeResult } from "@/lib/worker-protocol";
+import type { DetectionResult, Transaction } from "@/lib/types";
+import { tx } from "@/test/fixtures";
+
+// Deterministic sparse random graph with a few planted patterns
+function feed(): Transaction[] {
+  let seed = 42;
+  const rand = (n: number) => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed % n;
+  };
+  const txs: Transaction[] = [];
+  for (let i = 0; i < 400; i++) {
+    const from = rand(120);
+    const to = (from + 1 + rand(119)) % 120;
+    txs.push(tx(`R${i}`, `A${from}`, `A${to}`, rand(24 * 20)));
+  }
+  for (let i = 0; i < 12; i++) txs.push(tx(`F${i}`, `S${i}`, "HUB", 300 + i));
+  txs.push(tx("C1", "A1", "A2", 100), tx("C2", "A2", "A3", 101), tx("C3", "A3", "A1", 102));
+  return txs;
+}
+
+const summary = (result: DetectionResult) => ({
+  rings: result.fraud_rings.map(r => `${r.pattern_type}:${r.member_accounts.join(",")}:${r.risk_score}`).sort(),
+  accounts: result.suspicious_accounts
+    .map(a => `${a.account_id}:${a.suspicion_score}:${[...a.detected_patterns].sort().join("|")}`)
+    .sort(),
+});
+
+describe("incremental analysis", () => {
+  it("adds transactions to a graph in place and reports touched accounts", () => {
+    const graph = new TransactionGraph([tx("T1", "A", "B", 0)]);
+    const touched = graph.addTransactions([tx("T2", "B", "C", 1), tx("T3", "A", "B", 2)]);
+    expect([...touched].sort()).toEqual(["A", "B", "C"]);
+    expect(graph.edges.get("A->B")!.count).toBe(2);
+    expect(graph.nodes.get("B")!.outDegree).toBe(1);
+    expect([...graph.getNeighborhood(["C"], 1, "in")].sort()).toEqual(["B", "C"]);
+    expect([...graph.getNeighborhood(["C"], 2, "both")].sort()).toEqual(["A", "B", "C"]);
+  });
+
+  it("matches a full run when a batch is appended", async () => {
+    const all = feed();
+    const cut = Math.floor(all.length / 2);
+    const first = await analyzeBatch(null, all.slice(0, cut), () => {});
+    const second = await analyzeBatch(first.snapshot, all.slice(cut), () => {});
+    const full = await analyzeTransactions(all, () => {});
+
+    expect(second.result.fraud_rings.length).toBeGreaterThan(0);
+    expect(summary(second.result)).toEqual(summary(full));
+    expect(second.result.summary.total_accounts_analyzed).toBe(full.summary.total_accounts_analyzed);
+  });
+
+  it("appends to a result restored from storage", async () => {
+    const all = feed();
+    const cut = Math.floor(all.length / 2);
+    const first = await analyzeTransactions(all.slice(0, cut), () => {});
+    const saved = deserializeResult(JSON.parse(JSON.stringify(serializeResult(first))));
+
+    const second = await analyzeBatch(restoreSnapshot(saved), all.slice(cut), () => {});
+    const full = await analyzeTransactions(all, () => {});
+
+    expect(summary(second.result)).toEqual(summary(full));
+    expect(second.result.warnings).toEqual([]);
+    expect(second.diff!.resolved_rings.length + second.diff!.new_rings.length).toBeGreaterThan(0);
+  });
+
+  it("reports new, changed and resolved rings against the previous run", async () => {
+    const day1 = [tx("C1", "A", "B", 0), tx("C2", "B", "C", 1), tx("C3", "C", "A", 2)];
+    const first = await analyzeBatch(null, day1, () => {});
+    expect(first.diff).toBeNull();
+
+    // D joins the cycle's neighborhood; X → Y → Z → X is a new cycle
+    const day2 = [
+      tx("C1", "A", "B", 0),
+      tx("D1", "C", "D", 3), tx("D2", "D", "A", 4),
+      tx("X1", "X", "Y", 5), tx("X2", "Y", "Z", 6), tx("X3", "Z", "X", 7),
+    ];
+    const second = await analyzeBatch(first.snapshot, day2, () => {});
+    expect(second.result.warnings).toContain("1 transactions were already analyzed and were skipped");
+    expect(second.diff!.new_rings.map(r => r.member_accounts)).toEqual([["X", "Y", "Z"]]);
+    expect(second.diff!.changed_rings).toHaveLength(1);
+    expect(second.diff!.changed_rings[0].added_members).toEqual(["D"]);
+    expect(second.diff!.resolved_rings).toEqual([]);
+  });
+
+  it("re-analyzes everything when the settings change", async () => {
+    const first = await analyzeBatch(null, [tx("C1", "A", "B", 0), tx("C2", "B", "C", 1), tx("C3", "C", "A", 2)], () => {});
+    const second = await analyzeBatch(first.snapshot, [], () => {}, { config: { cycle_min_length: 4 } });
+    expect(second.result.warnings).toContain(
+      "Detection settings changed since the previous batch; every account was re-analyzed"
+    );
+    // The cycle is gone; the same accounts still form a shell chain
+    const evidencePatterns = (rings: { evidence: { pattern_type: string }[] }[]) =>
+      rings.flatMap(r => r.evidence.map(e => e.pattern_type)).sort();
+    expect(evidencePatterns(first.result.fraud_rings)).toEqual(["cycle_length_3", "shell_network"]);
+    expect(evidencePatterns(second.result.fraud_rings)).toEqual(["shell_network"]);
+  });
+});
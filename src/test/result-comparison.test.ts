@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import Papa from "papaparse";
+import { compareResults, comparisonToJSON, ringComparisonToCSV, scoreChangesToCSV } from "@/lib/result-comparison";
+import type { DetectionResult, FraudRing } from "@/lib/types";
+
+const ring = (ring_id: string, members: string[], risk_score = 80): FraudRing => ({
+  ring_id, member_accounts: members, pattern_type: "cycle_length_3", risk_score, evidence: [],
+});
+const result = (rings: FraudRing[], scores: Record<string, number>) => ({
+  fraud_rings: rings,
+  suspicious_accounts: Object.entries(scores).map(([account_id, suspicion_score]) => ({
+    account_id, suspicion_score, score_breakdown: [], detected_patterns: [], ring_id: null,
+  })),
+}) as unknown as DetectionResult;
+
+const before = result(
+  [ring("RING_001", ["A", "B", "C"]), ring("RING_002", ["P", "Q", "R", "S"]), ring("RING_003", ["X", "Y", "Z"])],
+  { A: 60, B: 60, P: 70, X: 50 }
+);
+const after = result(
+  [ring("RING_001", ["A", "B", "C", "D"]), ring("RING_002", ["P", "Q", "R"]), ring("RING_003", ["M", "N", "O"])],
+  { A: 65, B: 85, P: 70, M: 40 }
+);
+
+describe("compareResults", () => {
+  it("classifies ring changes and score moves", () => {
+    const comparison = compareResults(before, after);
+
+    expect(comparison.rings.map(r => [r.change, r.before?.ring_id ?? null, r.after?.ring_id ?? null])).toEqual([
+      ["new", null, "RING_003"],
+      ["disappeared", "RING_003", null],
+      ["grown", "RING_001", "RING_001"],
+      ["shrunk", "RING_002", "RING_002"],
+    ]);
+    expect(comparison.rings[2].added_members).toEqual(["D"]);
+    expect(comparison.rings[3].removed_members).toEqual(["S"]);
+
+    expect(comparison.score_changes).toEqual([
+      { account_id: "X", before: 50, after: null, delta: -50 },
+      { account_id: "M", before: null, after: 40, delta: 40 },
+      { account_id: "B", before: 60, after: 85, delta: 25 },
+    ]);
+    expect(compareResults(before, after, 30).score_changes.map(c => c.account_id)).toEqual(["X", "M"]);
+  });
+
+  it("exports JSON without evidence and CSV per section", () => {
+    const comparison = compareResults(before, after);
+
+    const json = JSON.parse(comparisonToJSON(comparison));
+    expect(json.rings[2].before).toEqual({
+      ring_id: "RING_001", pattern_type: "cycle_length_3", risk_score: 80, member_accounts: ["A", "B", "C"],
+    });
+
+    const rings = Papa.parse<Record<string, string>>(ringComparisonToCSV(comparison), { header: true }).data;
+    expect(rings[2]).toMatchObject({ change: "grown", members_after: "A B C D", added_members: "D" });
+
+    const scores = Papa.parse<Record<string, string>>(scoreChangesToCSV(comparison), { header: true }).data;
+    expect(scores[0]).toEqual({ account_id: "X", score_before: "50", score_after: "", delta: "-50" });
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { diffRings } from "@/lib/ring-diff";
+import type { FraudRing } from "@/lib/types";
+
+const ring = (ring_id: string, members: string[], pattern_type = "cycle_length_3", risk_score = 80): FraudRing => ({
+  ring_id, member_accounts: members, pattern_type, risk_score, evidence: [],
+});
+
+describe("diffRings", () => {
+  it("matches rings by membership rather than ID", () => {
+    const previous = [ring("RING_001", ["A", "B", "C"]), ring("RING_002", ["P", "Q", "R"]), ring("RING_003", ["X", "Y"])];
+    const current = [
+      ring("RING_001", ["P", "Q", "R"]),
+      ring("RING_002", ["A", "B", "C", "D"]),
+      ring("RING_003", ["M", "N", "O"]),
+    ];
+    const diff = diffRings(previous, current);
+
+    expect(diff.unchanged_rings).toBe(1);
+    expect(diff.changed_rings).toEqual([
+      { previous: previous[0], current: current[1], added_members: ["D"], removed_members: [] },
+    ]);
+    expect(diff.new_rings).toEqual([current[2]]);
+    expect(diff.resolved_rings).toEqual([previous[2]]);
+  });
+
+  it("pairs each ring at most once, most similar first", () => {
+    const previous = [ring("RING_001", ["A", "B", "C", "D"]), ring("RING_002", ["A", "B"])];
+    const current = [ring("RING_001", ["A", "B"], "cycle_length_3", 90)];
+    const diff = diffRings(previous, current);
+
+    expect(diff.changed_rings.map(c => c.previous.ring_id)).toEqual(["RING_002"]);
+    expect(diff.resolved_rings.map(r => r.ring_id)).toEqual(["RING_001"]);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { ringId } from "@/lib/ring-id";
+import { analyzeTransactions } from "@/lib/analyzer";
+import type { Transaction } from "@/lib/types";
+import { tx } from "@/test/fixtures";
+
+const ringIds = async (txs: Transaction[]) =>
+  (await analyzeTransactions(txs, () => {})).fraud_rings.map(r => `${r.ring_id}:${r.member_accounts.join(",")}`).sort();
+
+describe("ringId", () => {
+  it("depends only on the pattern and the member set", () => {
+    const id = ringId("cycle_length_3", ["C", "A", "B"]);
+    expect(id).toMatch(/^RING_[0-9a-f]{14}$/);
+    expect(ringId("cycle_length_3", ["A", "B", "C"])).toBe(id);
+    expect(ringId("cycle_length_3", ["B", "C", "A", "A"])).toBe(id);
+    expect(ringId("shell_network", ["A", "B", "C"])).not.toBe(id);
+    expect(ringId("cycle_length_3", ["A", "B", "D"])).not.toBe(id);
+  });
+
+  it("gives the same IDs across reruns and input row order", async () => {
+    const txs = [
+      tx("C1", "A", "B", 0), tx("C2", "B", "C", 1), tx("C3", "C", "A", 2),
+      ...Array.from({ length: 12 }, (_, i) => tx(`F${i}`, `S${i}`, "HUB", 10 + i)),
+    ];
+    const first = await ringIds(txs);
+    expect(first).toHaveLength(2);
+    expect(await ringIds(txs)).toEqual(first);
+    expect(await ringIds([...txs].reverse())).toEqual(first);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { analyzeTransactions } from "@/lib/analyzer";
+import { tx } from "@/test/fixtures";
+
+describe("score breakdown", () => {
+  it("lists every factor and sums to the suspicion score", async () => {
+    const result = await analyzeTransactions([
+      tx("T1", "A", "B", 0), tx("T2", "B", "C", 1), tx("T3", "C", "A", 2),
+    ], () => {});
+
+    for (const account of result.suspicious_accounts) {
+      const total = account.score_breakdown.reduce((sum, f) => sum + f.delta, 0);
+      expect(total).toBeCloseTo(account.suspicion_score);
+    }
+    const a = result.suspicious_accounts.find(acc => acc.account_id === "A")!;
+    expect(a.score_breakdown[0]).toMatchObject({ factor: "base", delta: 20 });
+    expect(a.score_breakdown.find(f => f.factor === "cycle_length_3")?.delta).toBe(20);
+  });
+
+  it("records clamping as its own factor", async () => {
+    // A hub in a 5-cycle that also aggregates a fan-in scores 20 + 40 + 35 + ... > 100
+    const cycle = [["H", "B"], ["B", "C"], ["C", "D"], ["D", "E"], ["E", "H"]].map(([f, t], i) => tx(`C${i}`, f, t, i));
+    const fanIn = Array.from({ length: 10 }, (_, i) => tx(`F${i}`, `S${i}`, "H", i));
+    const result = await analyzeTransactions([...cycle, ...fanIn], () => {});
+
+    const hub = result.suspicious_accounts.find(acc => acc.account_id === "H")!;
+    const factors = hub.score_breakdown.map(f => f.factor);
+    expect(factors).toContain("cycle_length_5");
+    expect(factors).toContain("fan_in_72h");
+    expect(factors[factors.length - 1]).toBe("clamp");
+    expect(hub.suspicion_score).toBe(100);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { analyzeTransactions } from "@/lib/analyzer";
+import { parseWatchlist } from "@/lib/watchlist";
+import type { WatchlistEntry } from "@/lib/types";
+import { tx } from "@/test/fixtures";
+
+// A → BAD ← B → C → D: direction does not matter for proximity; C forwards
+// too late to form a shell chain
+const chain = [tx("T1", "A", "BAD", 0), tx("T2", "B", "BAD", 1), tx("T3", "B", "C", 2), tx("T4", "C", "D", 500)];
+const bad: WatchlistEntry = { account_id: "BAD", name: "Jane Doe", aliases: ["J. Doe"] };
+
+describe("watchlist", () => {
+  it("parses the watchlist CSV, merging duplicate accounts", () => {
+    expect(parseWatchlist([
+      "account_id,name,aliases",
+      "BAD,Jane Doe,J. Doe;JD",
+      "OTHER,,",
+      "BAD,,Janie|JD",
+    ].join("\n"))).toEqual([
+      { account_id: "BAD", name: "Jane Doe", aliases: ["J. Doe", "JD", "Janie"] },
+      { account_id: "OTHER", name: null, aliases: [] },
+    ]);
+
+    expect(parseWatchlist("account_id\nBAD")).toEqual([{ account_id: "BAD", name: null, aliases: [] }]);
+    expect(() => parseWatchlist("id,name\nBAD,x")).toThrow("missing column: account_id");
+    expect(() => parseWatchlist("account_id,name\n,x")).toThrow(/line 2: missing account_id/);
+  });
+
+  it("flags accounts within watchlist_max_hops of a watchlisted account", async () => {
+    const result = await analyzeTransactions(chain, () => {}, { watchlist: [bad] });
+    const patterns = Object.fromEntries(result.suspicious_accounts.map(a => [a.account_id, a.detected_patterns]));
+    expect(patterns).toEqual({
+      BAD: ["watchlist_proximity_0"],
+      A: ["watchlist_proximity_1"],
+      B: ["watchlist_proximity_1"],
+      C: ["watchlist_proximity_2"],
+    });
+
+    const c = result.graph.nodes.find(n => n.id === "C")!;
+    expect(c.watchlistHit).toEqual({ entry: bad, hops: 2, path: ["C", "B", "BAD"] });
+    const factor = result.suspicious_accounts.find(a => a.account_id === "C")!.score_breakdown
+      .find(f => f.factor === "watchlist_proximity_2");
+    expect(factor).toEqual({
+      factor: "watchlist_proximity_2",
+      delta: 15,
+      evidence: "2 hops from watchlisted BAD (Jane Doe, aka J. Doe): C ↔ B ↔ BAD",
+    });
+
+    const closer = await analyzeTransactions(chain, () => {}, { watchlist: [bad], config: { watchlist_max_hops: 1 } });
+    expect(closer.suspicious_accounts.map(a => a.account_id).sort()).toEqual(["A", "B", "BAD"]);
+  });
+
+  it("does not traverse excluded registry entities", async () => {
+    const result = await analyzeTransactions(chain, () => {}, {
+      watchlist: [bad],
+      registry: [{ account_id: "B", entity_type: "payroll", reason: "Salaries", action: "exclude" }],
+    });
+    expect(result.suspicious_accounts.map(a => a.account_id).sort()).toEqual(["A", "BAD"]);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { analyzeTransactions } from "@/lib/analyzer";
+import { deserializeResult, serializeResult } from "@/lib/worker-protocol";
+import type { Transaction } from "@/lib/types";
+
+const base = Date.UTC(2024, 0, 1);
+const transactions: Transaction[] = [
+  ["A", "B"], ["B", "C"], ["C", "A"],
+].map(([from, to], i) => ({
+  transaction_id: `T${i}`,
+  sender_id: from,
+  receiver_id: to,
+  amount: 500,
+  timestamp: new Date(base + i * 3600_000),
+}));
+
+describe("worker protocol serialization", () => {
+  it("round-trips a result through structured-clone-safe data", async () => {
+    const result = await analyzeTransactions(transactions, () => {});
+    const serialized = serializeResult(result);
+
+    // Each transaction is stored once even though nodes and edges share it
+    expect(serialized.transactions).toHaveLength(3);
+    expect(typeof serialized.transactions[0].timestamp).toBe("number");
+
+    const restored = deserializeResult(JSON.parse(JSON.stringify(serialized)));
+    expect(restored.fraud_rings).toEqual(result.fraud_rings);
+    expect(restored.graph.nodes.map(n => n.id)).toEqual(result.graph.nodes.map(n => n.id));
+
+    const nodeA = restored.graph.nodes.find(n => n.id === "A")!;
+    const edgeAB = restored.graph.edges.find(e => e.source === "A" && e.target === "B")!;
+    expect(nodeA.transactions[0].timestamp).toBeInstanceOf(Date);
+    expect(nodeA.transactions[0].timestamp.getTime()).toBe(base);
+    expect(edgeAB.transactions[0]).toBe(nodeA.transactions.find(t => t.transaction_id === "T0"));
+  });
+});
@@ -0,0 +1,52 @@
+-- Saved analyses, owned by the signed-in user.
+-- analyses.result holds the serialized DetectionResult (see src/lib/worker-protocol.ts)
+-- so a past run can be reopened with its graph; accounts and rings are
+-- projected into their own tables for querying across analyses.
+
+create table public.analyses (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  file_name text not null,
+  reporting_currency text not null,
+  config jsonb not null,
+  summary jsonb not null,
+  result jsonb not null
+);
+
+create index analyses_user_created_idx on public.analyses (user_id, created_at desc);
+
+create table public.analysis_accounts (
+  analysis_id uuid not null references public.analyses (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  account_id text not null,
+  suspicion_score double precision not null,
+  detected_patterns text[] not null,
+  ring_id text,
+  score_breakdown jsonb not null,
+  primary key (analysis_id, account_id)
+);
+
+create table public.analysis_rings (
+  analysis_id uuid not null references public.analyses (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  ring_id text not null,
+  pattern_type text not null,
+  member_accounts text[] not null,
+  risk_score double precision not null,
+  evidence jsonb not null,
+  primary key (analysis_id, ring_id)
+);
+
+alter table public.analyses enable row level security;
+alter table public.analysis_accounts enable row level security;
+alter table public.analysis_rings enable row level security;
+
+create policy "Users manage their own analyses" on public.analyses
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users manage their own analysis accounts" on public.analysis_accounts
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users manage their own analysis rings" on public.analysis_rings
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
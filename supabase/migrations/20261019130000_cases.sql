@@ -0,0 +1,80 @@
+-- Case management for flagged accounts and fraud rings.
+-- A case is keyed by its subject (account_id or ring_id plus the ring's
+-- members) rather than by analysis, so it stays attached across re-runs.
+
+create table public.cases (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  analysis_id uuid references public.analyses (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  subject_type text not null check (subject_type in ('account', 'ring')),
+  subject_id text not null,
+  member_accounts text[] not null,
+  title text not null,
+  status text not null default 'new'
+    check (status in ('new', 'investigating', 'escalated', 'closed_false_positive', 'closed_sar_filed')),
+  assignee text
+);
+
+create index cases_user_subject_idx on public.cases (user_id, subject_type, subject_id);
+
+create table public.case_notes (
+  id uuid primary key default gen_random_uuid(),
+  case_id uuid not null references public.cases (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  body text not null
+);
+
+-- Evidence is either a snapshot from the detection result (data) or an external link (url)
+create table public.case_evidence (
+  id uuid primary key default gen_random_uuid(),
+  case_id uuid not null references public.cases (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  label text not null,
+  url text,
+  data jsonb
+);
+
+create or replace function public.touch_case_updated_at() returns trigger
+language plpgsql as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create trigger cases_touch_updated_at before update on public.cases
+  for each row execute function public.touch_case_updated_at();
+
+alter table public.cases enable row level security;
+alter table public.case_notes enable row level security;
+alter table public.case_evidence enable row level security;
+
+create policy "Users manage their own cases" on public.cases
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Notes and evidence must also hang off a case the user owns, not just carry their user_id
+create policy "Users manage their own case notes" on public.case_notes
+  for all
+  using (
+    auth.uid() = user_id
+    and exists (select 1 from public.cases c where c.id = case_id and c.user_id = auth.uid())
+  )
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.cases c where c.id = case_id and c.user_id = auth.uid())
+  );
+
+create policy "Users manage their own case evidence" on public.case_evidence
+  for all
+  using (
+    auth.uid() = user_id
+    and exists (select 1 from public.cases c where c.id = case_id and c.user_id = auth.uid())
+  )
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.cases c where c.id = case_id and c.user_id = auth.uid())
+  );
@@ -0,0 +1,20 @@
+-- Analyst decisions recorded when a case is closed. Later analyses read these
+-- back to down-weight or suppress accounts cleared as false positives.
+
+create table public.account_dispositions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  case_id uuid references public.cases (id) on delete set null,
+  account_id text not null,
+  -- null covers every pattern
+  pattern_type text,
+  disposition text not null check (disposition in ('false_positive', 'confirmed')),
+  decided_at timestamptz not null default now()
+);
+
+create index account_dispositions_user_account_idx on public.account_dispositions (user_id, account_id);
+
+alter table public.account_dispositions enable row level security;
+
+create policy "Users manage their own dispositions" on public.account_dispositions
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
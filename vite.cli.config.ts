@@ -0,0 +1,25 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Bundles the Node CLI (src/cli) into a single ESM file. Dependencies stay
+// external and are resolved from node_modules at runtime.
+export default defineConfig({
+  // The web app's public/ assets have no place in the CLI bundle
+  publicDir: false,
+  build: {
+    ssr: "src/cli/mulermoney.ts",
+    outDir: "dist-cli",
+    target: "node18",
+    rollupOptions: {
+      output: {
+        entryFileNames: "mulermoney.js",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+});